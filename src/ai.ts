@@ -0,0 +1,90 @@
+import { EventEmitter } from "node:events";
+import { currentContext } from "./context.js";
+
+/**
+ * Raycast AI, answered by the MCP client's model through sampling. Shared
+ * by the @raycast/api and @raycast/utils shims.
+ */
+
+/** Raycast creativity levels mapped to sampling temperatures */
+const CREATIVITY_TEMPERATURE: Record<string, number> = {
+  none: 0,
+  low: 0.5,
+  medium: 1,
+  high: 1.5,
+  maximum: 2,
+};
+
+export interface AskOptions {
+  creativity?: keyof typeof CREATIVITY_TEMPERATURE | number;
+  model?: string;
+  signal?: AbortSignal;
+}
+
+/** "Anthropic_Claude_Sonnet" -> "claude-sonnet", used as a sampling model hint */
+function modelHint(model: string): string {
+  const [, ...rest] = model.split("_");
+  return (rest.length > 0 ? rest : [model]).join("-").toLowerCase();
+}
+
+/**
+ * AI.ask - answered by the MCP client's model through sampling.
+ * Returns a promise that also emits the answer as a single "data" event,
+ * matching Raycast's streaming interface.
+ */
+export function ask(prompt: string, options: AskOptions = {}) {
+  const emitter = new EventEmitter();
+  const { client, signal: callSignal } = currentContext();
+
+  const answer = (async () => {
+    if (!client?.createMessage) {
+      throw new Error(
+        "AI.ask is unavailable: the connected MCP client does not support sampling"
+      );
+    }
+    const { creativity, model, signal } = options;
+    const text = await client.createMessage(prompt, {
+      temperature: typeof creativity === "number"
+        ? creativity
+        : creativity !== undefined ? CREATIVITY_TEMPERATURE[creativity] : undefined,
+      model: model ? modelHint(model) : undefined,
+      signal: signal && callSignal ? AbortSignal.any([signal, callSignal]) : signal ?? callSignal,
+    });
+    emitter.emit("data", text);
+    return text;
+  })();
+  // Callers that only listen for data never await the answer, so its
+  // failure goes to "error" listeners rather than becoming unhandled
+  answer.catch((err) => {
+    if (emitter.listenerCount("error") > 0) emitter.emit("error", err);
+  });
+
+  return Object.assign(answer, {
+    on(event: string, listener: (...args: any[]) => void) {
+      emitter.on(event, listener);
+      return answer;
+    },
+    once(event: string, listener: (...args: any[]) => void) {
+      emitter.once(event, listener);
+      return answer;
+    },
+    off(event: string, listener: (...args: any[]) => void) {
+      emitter.off(event, listener);
+      return answer;
+    },
+  });
+}
+
+/** AI.Model - enum whose values are the model identifiers themselves */
+const AIModel = new Proxy({}, {
+  get(_, prop) {
+    return typeof prop === "symbol" ? undefined : prop;
+  },
+});
+
+/** AI - routed to the MCP client via sampling */
+export const AI = {
+  ask,
+  Model: AIModel,
+  Creativity: { None: "none", Low: "low", Medium: "medium", High: "high", Maximum: "maximum" },
+};
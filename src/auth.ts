@@ -1,8 +1,10 @@
-import { execFileSync, execSync } from "node:child_process";
+import { execFile, spawn } from "node:child_process";
 import { createHash } from "node:crypto";
-import { copyFileSync, existsSync, unlinkSync, mkdtempSync, rmdirSync } from "node:fs";
+import { stat } from "node:fs/promises";
 import { join } from "node:path";
-import { homedir, tmpdir } from "node:os";
+import { homedir } from "node:os";
+import { setTimeout as sleep } from "node:timers/promises";
+import { promisify } from "node:util";
 
 const RAYCAST_SALT = "yvkwWXzxPPBAqY2tmaKrB*DvYjjMaeEf";
 
@@ -18,180 +20,197 @@ export interface TokenSet {
   tokenType?: string;
 }
 
+/** Preferences and OAuth token sets read from Raycast, keyed by extension name. */
+export interface RaycastCredentials {
+  preferences: Record<string, Record<string, unknown>>;
+  tokens: Map<string, TokenSet[]>;
+}
 
-/**
- * Read the database encryption key from macOS Keychain, derive the
- * passphrase using Raycast's salt, and return it.
- */
-function getDatabasePassphrase(): string {
-  const keyHex = execFileSync("security", [
-    "find-generic-password",
-    "-s",
-    "Raycast",
-    "-a",
-    "database_key",
-    "-w",
-  ], { encoding: "utf-8" }).trim();
-
-  return createHash("sha256")
-    .update(keyHex + RAYCAST_SALT)
-    .digest("hex");
+export interface RaycastDatabaseOptions {
+  /** Defaults to Raycast's database in ~/Library/Application Support */
+  dbPath?: string;
+  /** SQLCipher passphrase; defaults to the one derived from the Keychain key */
+  passphrase?: string;
 }
 
-/**
- * Query Raycast's encrypted SQLite database using sqlcipher CLI.
- * Uses unique temp directory per query and includes retry logic for transient errors.
- */
-function queryDB(passphrase: string, sql: string, retries = 3): any[] {
-  const dbDir = join(
+interface ExtensionRow {
+  name?: string;
+  tokenSets?: string | null;
+  preferences?: string | null;
+}
+
+const RETRIES = 3;
+
+const TRANSIENT_ERRORS = [
+  "database is locked",
+  "database disk image is malformed",
+  "no such table",
+];
+
+let keychainPassphrase: Promise<string> | undefined;
+
+/** Decrypted results of the last read, keyed by DB path and mtimes */
+let cached: { key: string; result: Promise<RaycastCredentials> } | undefined;
+
+export function getRaycastDbPath(): string {
+  return join(
     homedir(),
     "Library",
     "Application Support",
-    "com.raycast.macos"
+    "com.raycast.macos",
+    "raycast-enc.sqlite"
   );
-  const dbPath = join(dbDir, "raycast-enc.sqlite");
-
-  // Create unique temp directory per query to avoid conflicts
-  const tmpDir = mkdtempSync(join(tmpdir(), "raybridge-db-"));
-  const tmpDb = join(tmpDir, "raycast-enc.sqlite");
-
-  const cleanup = () => {
-    for (const ext of ["", "-wal", "-shm"]) {
-      try {
-        unlinkSync(tmpDb + ext);
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
-    try {
-      rmdirSync(tmpDir);
-    } catch {
-      // Ignore cleanup errors
-    }
-  };
-
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      // Copy all DB files as close together as possible
-      copyFileSync(dbPath, tmpDb);
-      for (const ext of ["-wal", "-shm"]) {
-        const src = dbPath + ext;
-        if (existsSync(src)) copyFileSync(src, tmpDb + ext);
-      }
+}
 
-      const input = `PRAGMA key = '${passphrase}';\n.mode json\n${sql}`;
-      const result = execSync(`sqlcipher "${tmpDb}"`, {
-        input,
-        encoding: "utf-8",
-        maxBuffer: 10 * 1024 * 1024,
-      });
+/**
+ * Read the database encryption key from macOS Keychain, derive the
+ * passphrase using Raycast's salt, and return it. The key doesn't change,
+ * so the Keychain is only asked once per process.
+ */
+function getDatabasePassphrase(): Promise<string> {
+  keychainPassphrase ??= promisify(execFile)(
+    "security",
+    ["find-generic-password", "-s", "Raycast", "-a", "database_key", "-w"],
+    { encoding: "utf-8" }
+  ).then(
+    ({ stdout }) =>
+      createHash("sha256")
+        .update(stdout.trim() + RAYCAST_SALT)
+        .digest("hex"),
+    (err) => {
+      keychainPassphrase = undefined;
+      throw err;
+    }
+  );
+  return keychainPassphrase;
+}
 
-      cleanup();
+async function mtime(path: string): Promise<number> {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch {
+    return 0;
+  }
+}
 
-      const jsonStr = result.startsWith("ok\n") ? result.slice(3) : result;
-      try {
-        return JSON.parse(jsonStr.trim());
-      } catch {
-        return [];
+/**
+ * Run SQL through the sqlcipher CLI, with the key and SQL on stdin. Bun
+ * can't load the better-sqlite3-based SQLCipher bindings, so there is no
+ * in-process reader.
+ */
+function runSqlcipher(dbPath: string, input: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("sqlcipher", ["-readonly", dbPath], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    child.stdout.setEncoding("utf-8").on("data", (chunk) => (stdout += chunk));
+    child.stderr.setEncoding("utf-8").on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+    child.on("close", (code) => {
+      // The CLI reports SQL errors on stderr, sometimes with exit code 0
+      if (code !== 0 || stderr.trim()) {
+        reject(new Error(stderr.trim() || `sqlcipher exited with code ${code}`));
+      } else {
+        resolve(stdout);
       }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Query Raycast's encrypted database in place, read-only. Retries with a
+ * short delay while Raycast is mid-write.
+ */
+async function queryDB(dbPath: string, passphrase: string, sql: string): Promise<any[]> {
+  const input = `PRAGMA key = '${passphrase.replace(/'/g, "''")}';\n.mode json\n${sql}\n`;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const output = await runSqlcipher(dbPath, input);
+      const json = (output.startsWith("ok\n") ? output.slice(3) : output).trim();
+      return json ? JSON.parse(json) : [];
     } catch (err: any) {
       const message = err?.message || String(err);
-      const isTransient =
-        message.includes("database is locked") ||
-        message.includes("database disk image is malformed") ||
-        message.includes("no such table");
-
-      if (isTransient && attempt < retries) {
-        // Brief delay before retry - give Raycast time to finish writing
-        const delay = 50 * attempt;
-        if (typeof Bun !== "undefined" && Bun.sleepSync) {
-          Bun.sleepSync(delay);
-        } else {
-          const start = Date.now();
-          while (Date.now() - start < delay) {
-            // Busy wait fallback
-          }
-        }
+      if (attempt < RETRIES && TRANSIENT_ERRORS.some((e) => message.includes(e))) {
+        // Give Raycast time to finish writing
+        await sleep(50 * attempt);
         continue;
       }
-
-      cleanup();
       throw err;
     }
   }
-
-  cleanup();
-  return [];
 }
 
-/**
- * Load OAuth token sets for all extensions from Raycast's encrypted DB.
- * Returns a map of extension name -> array of token sets.
- */
-export function loadRaycastTokens(): Map<string, TokenSet[]> {
-  const tokens = new Map<string, TokenSet[]>();
-
+function parseTokenSets(value: string): TokenSet[] | undefined {
   try {
-    const passphrase = getDatabasePassphrase();
-    const rows = queryDB(
-      passphrase,
-      "SELECT name, tokenSets FROM extensions WHERE tokenSets IS NOT NULL AND tokenSets != '';"
-    );
-
-    for (const row of rows) {
-      if (!row.name || !row.tokenSets) continue;
-      try {
-        const parsed = JSON.parse(row.tokenSets);
-        const sets = Array.isArray(parsed) ? parsed : [parsed];
-        tokens.set(row.name, sets as TokenSet[]);
-      } catch {
-        continue;
-      }
-    }
-  } catch (err) {
-    console.error("raybridge: Could not read Raycast OAuth tokens:", err);
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return undefined;
   }
-
-  return tokens;
 }
 
-/**
- * Load extension preferences from Raycast's encrypted DB.
- * Returns a map of extension name -> preference key-value pairs.
- */
-export function loadRaycastPreferences(): Record<string, Record<string, unknown>> {
-  const prefs: Record<string, Record<string, unknown>> = {};
-
+/** Preferences are stored as an array of {name, value, ...} objects. */
+function parsePreferences(value: string): Record<string, unknown> | undefined {
   try {
-    const passphrase = getDatabasePassphrase();
-    const rows = queryDB(
-      passphrase,
-      "SELECT name, preferences FROM extensions WHERE preferences IS NOT NULL AND preferences != '';"
-    );
-
-    for (const row of rows) {
-      if (!row.name || !row.preferences) continue;
-      try {
-        const parsed = JSON.parse(row.preferences);
-        // Preferences are stored as array of {name, value, ...} objects
-        const prefObj: Record<string, unknown> = {};
-        if (Array.isArray(parsed)) {
-          for (const pref of parsed) {
-            if (pref.name && pref.value !== undefined) {
-              prefObj[pref.name] = pref.value;
-            }
-          }
-        }
-        if (Object.keys(prefObj).length > 0) {
-          prefs[row.name] = prefObj;
+    const parsed = JSON.parse(value);
+    const prefs: Record<string, unknown> = {};
+    if (Array.isArray(parsed)) {
+      for (const pref of parsed) {
+        if (pref.name && pref.value !== undefined) {
+          prefs[pref.name] = pref.value;
         }
-      } catch {
-        continue;
       }
     }
-  } catch (err) {
-    console.error("raybridge: Could not read Raycast preferences:", err);
+    return Object.keys(prefs).length > 0 ? prefs : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  return prefs;
+async function readDatabase(dbPath: string, passphrase: string): Promise<RaycastCredentials> {
+  const rows: ExtensionRow[] = await queryDB(
+    dbPath,
+    passphrase,
+    "SELECT name, tokenSets, preferences FROM extensions " +
+      "WHERE (tokenSets IS NOT NULL AND tokenSets != '') " +
+      "OR (preferences IS NOT NULL AND preferences != '');"
+  );
+
+  const credentials: RaycastCredentials = { preferences: {}, tokens: new Map() };
+  for (const row of rows) {
+    if (!row.name) continue;
+    const tokens = row.tokenSets ? parseTokenSets(row.tokenSets) : undefined;
+    if (tokens) credentials.tokens.set(row.name, tokens);
+    const prefs = row.preferences ? parsePreferences(row.preferences) : undefined;
+    if (prefs) credentials.preferences[row.name] = prefs;
+  }
+  return credentials;
+}
+
+/**
+ * Load OAuth token sets and preferences for all extensions from Raycast's
+ * encrypted DB in one query. Decrypted results stay in memory only and are
+ * reused until the database or its WAL file changes.
+ */
+export async function loadRaycastCredentials(
+  options: RaycastDatabaseOptions = {}
+): Promise<RaycastCredentials> {
+  const dbPath = options.dbPath ?? getRaycastDbPath();
+  const [dbMtime, walMtime] = await Promise.all([mtime(dbPath), mtime(`${dbPath}-wal`)]);
+  const key = `${dbPath}:${dbMtime}:${walMtime}`;
+  if (cached?.key === key) return cached.result;
+
+  const result = (async () => {
+    const passphrase = options.passphrase ?? (await getDatabasePassphrase());
+    return readDatabase(dbPath, passphrase);
+  })();
+  cached = { key, result };
+  // Failures aren't cached, so the next reload tries again
+  result.catch(() => {
+    if (cached?.result === result) cached = undefined;
+  });
+  return result;
 }
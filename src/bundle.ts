@@ -0,0 +1,139 @@
+import { readFile } from "node:fs/promises";
+import type { TokenSet } from "./auth.js";
+import { getVaultPath, loadPreferences, type ToolsConfig } from "./config.js";
+import { loadCredentials, type CredentialEntries } from "./credentials.js";
+import {
+  loadStoredTokens,
+  loadTokenEndpoints,
+  saveTokenEndpoint,
+  type TokenEndpoint,
+} from "./token-store.js";
+import { withFileLock, writeFileAtomic } from "./file-store.js";
+import {
+  ageFormat,
+  decryptWithPassphrase,
+  encryptWithPassphrase,
+  passphraseFromEnv,
+  readVaultFile,
+  writeVaultFile,
+} from "./vault.js";
+
+/**
+ * Portable credential bundles: `raybridge export` snapshots preferences and
+ * OAuth token sets on the machine where Raycast lives, and `raybridge
+ * import` merges them into the vault on another machine. Bundles are
+ * encrypted like a passphrase vault, with RAYBRIDGE_BUNDLE_PASSPHRASE.
+ */
+
+interface CredentialBundle {
+  raybridgeBundle: 1;
+  exportedAt: string;
+  extensions: CredentialEntries;
+  /**
+   * Token endpoints per extension and provider, so imported tokens can be
+   * refreshed (absent from older bundles)
+   */
+  tokenEndpoints?: Record<string, Record<string, TokenEndpoint>>;
+}
+
+const BUNDLE_PASSPHRASE = "RAYBRIDGE_BUNDLE_PASSPHRASE";
+
+/**
+ * Write the given extensions' credentials to an encrypted bundle. Includes
+ * everything the server would use: provider credentials, preferences.json,
+ * tokens in raybridge's token store and the token endpoints for refreshing
+ * them. Returns the exported extensions.
+ */
+export async function exportCredentials(
+  path: string,
+  extensionNames: string[],
+  config: ToolsConfig
+): Promise<string[]> {
+  const passphrase = passphraseFromEnv(BUNDLE_PASSPHRASE);
+  const credentials = await loadCredentials(extensionNames, config);
+  const manualPrefs = await loadPreferences();
+
+  const extensions: CredentialEntries = {};
+  const tokenEndpoints: Record<string, Record<string, TokenEndpoint>> = {};
+  for (const name of extensionNames) {
+    const preferences = { ...credentials.preferences[name], ...manualPrefs[name] };
+    const tokens: TokenSet[] = [
+      ...(await loadStoredTokens(name)),
+      ...(credentials.tokens.get(name) ?? []),
+    ];
+    if (Object.keys(preferences).length === 0 && tokens.length === 0) continue;
+    extensions[name] = {};
+    if (Object.keys(preferences).length > 0) extensions[name].preferences = preferences;
+    if (tokens.length > 0) extensions[name].tokens = tokens;
+    const endpoints = await loadTokenEndpoints(name);
+    if (tokens.length > 0 && Object.keys(endpoints).length > 0) tokenEndpoints[name] = endpoints;
+  }
+
+  const bundle: CredentialBundle = {
+    raybridgeBundle: 1,
+    exportedAt: new Date().toISOString(),
+    extensions,
+    tokenEndpoints,
+  };
+  await writeFileAtomic(path, await encryptWithPassphrase(JSON.stringify(bundle), passphrase));
+  return Object.keys(extensions);
+}
+
+/**
+ * Merge a bundle into the vault. Imported preferences are merged key by
+ * key; an extension's imported token sets replace those already in the
+ * vault, and their token endpoints go to raybridge's token store. The vault
+ * keeps its encryption: a passphrase vault is rewritten with the
+ * passphrase, an age vault for `ageRecipients` (the import is refused
+ * without them). Returns the imported extensions.
+ */
+export async function importCredentials(
+  path: string,
+  config: ToolsConfig
+): Promise<string[]> {
+  const bundle = JSON.parse(
+    await decryptWithPassphrase(await readFile(path, "utf-8"), passphraseFromEnv(BUNDLE_PASSPHRASE))
+  ) as CredentialBundle;
+  if (bundle.raybridgeBundle !== 1) {
+    throw new Error(`${path} is not a raybridge credential bundle`);
+  }
+
+  const vaultPath = getVaultPath(config);
+  const { ageIdentity, ageRecipients } = config.credentials?.vault ?? {};
+  await withFileLock(vaultPath, async () => {
+    const contents = await readFile(vaultPath).catch(() => undefined);
+    const format = contents ? ageFormat(contents) : undefined;
+    if (format && !ageRecipients) {
+      throw new Error(
+        `${vaultPath} is encrypted with age; set credentials.vault.ageRecipients to a recipients file so the import can re-encrypt it`
+      );
+    }
+    const vault: CredentialEntries = contents
+      ? JSON.parse(await readVaultFile(vaultPath, { ageIdentity }))
+      : {};
+
+    for (const [name, entry] of Object.entries(bundle.extensions)) {
+      const existing = vault[name] ?? {};
+      vault[name] = {
+        ...existing,
+        ...(entry.preferences && {
+          preferences: { ...existing.preferences, ...entry.preferences },
+        }),
+        ...(entry.tokens !== undefined && { tokens: entry.tokens }),
+      };
+    }
+
+    // A new vault is encrypted with age when recipients are configured
+    await writeVaultFile(vaultPath, JSON.stringify(vault, null, 2), {
+      ageRecipients: format || !contents ? ageRecipients : undefined,
+      armor: format === "armored",
+    });
+  });
+
+  for (const [name, endpoints] of Object.entries(bundle.tokenEndpoints ?? {})) {
+    for (const [provider, endpoint] of Object.entries(endpoints)) {
+      await saveTokenEndpoint(name, provider, endpoint);
+    }
+  }
+  return Object.keys(bundle.extensions);
+}
@@ -0,0 +1,238 @@
+import {
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+import { getDataDir } from "./config.js";
+import { safeFileName } from "./file-store.js";
+
+/** Raycast's default capacity: 10 MB */
+const DEFAULT_CAPACITY = 10 * 1024 * 1024;
+/** How long reads batch up their access order before it is written */
+const ORDER_SAVE_DELAY_MS = 1000;
+
+export interface CacheOptions {
+  namespace?: string;
+  /** Maximum size in bytes before least recently used entries are evicted */
+  capacity?: number;
+}
+
+export type CacheSubscriber = (key: string | undefined, data: string | undefined) => void;
+
+/**
+ * Entries for one extension/namespace, shared by every Cache instance in
+ * this process. Map order is LRU order (oldest first). The backing file is
+ * re-read whenever another process has written it since our last sync;
+ * concurrent writers are last-write-wins, which is acceptable for a cache.
+ * Reads only reorder the map; the order is saved with the next write, or
+ * in one batch shortly after the reads.
+ */
+class CacheFile {
+  entries = new Map<string, string>();
+  private size = 0;
+  private mtimeMs = -1;
+  /** Most recently used key, if known, so repeated reads of it are free */
+  private newest: string | undefined;
+  private orderTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(readonly path: string) {}
+
+  sync(): void {
+    let mtimeMs: number;
+    try {
+      mtimeMs = statSync(this.path).mtimeMs;
+    } catch {
+      mtimeMs = 0;
+    }
+    if (mtimeMs === this.mtimeMs) return;
+
+    this.clear();
+    if (mtimeMs > 0) {
+      try {
+        const parsed = JSON.parse(readFileSync(this.path, "utf-8"));
+        for (const [key, value] of parsed.entries ?? []) {
+          this.entries.set(key, value);
+          this.size += entrySize(key, value);
+          this.newest = key;
+        }
+      } catch {
+        // Corrupt cache files are treated as empty
+      }
+    }
+    this.mtimeMs = mtimeMs;
+  }
+
+  /** Make key the most recently used entry and schedule saving the order. */
+  touch(key: string): void {
+    const value = this.entries.get(key);
+    if (value === undefined || key === this.newest) return;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    this.newest = key;
+    if (!this.orderTimer) {
+      this.orderTimer = setTimeout(() => this.saveOrder(), ORDER_SAVE_DELAY_MS);
+      this.orderTimer.unref?.();
+    }
+  }
+
+  private saveOrder(): void {
+    this.orderTimer = undefined;
+    const mtimeMs = this.mtimeMs;
+    this.sync();
+    // Another process wrote the file since; its contents win
+    if (this.mtimeMs !== mtimeMs) return;
+    try {
+      this.persist();
+    } catch (err) {
+      console.error(`raybridge: Failed to save cache order for ${this.path}: ${err}`);
+    }
+  }
+
+  set(key: string, value: string, capacity: number): void {
+    this.delete(key);
+    this.entries.set(key, value);
+    this.size += entrySize(key, value);
+    this.newest = key;
+    // Evict least recently used entries, but always keep the newest one
+    for (const [oldKey] of this.entries) {
+      if (this.size <= capacity || oldKey === key) break;
+      this.delete(oldKey);
+    }
+  }
+
+  delete(key: string): boolean {
+    const value = this.entries.get(key);
+    if (value === undefined) return false;
+    this.entries.delete(key);
+    this.size -= entrySize(key, value);
+    if (key === this.newest) this.newest = undefined;
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+    this.newest = undefined;
+  }
+
+  persist(): void {
+    // The write saves the current order, so a pending order save is moot
+    clearTimeout(this.orderTimer);
+    this.orderTimer = undefined;
+    if (this.entries.size === 0) {
+      rmSync(this.path, { force: true });
+      this.mtimeMs = 0;
+      return;
+    }
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmpPath = join(dirname(this.path), `.${randomBytes(6).toString("hex")}.tmp`);
+    try {
+      writeFileSync(tmpPath, JSON.stringify({ entries: [...this.entries] }), { mode: 0o600 });
+      renameSync(tmpPath, this.path);
+    } catch (err) {
+      try { unlinkSync(tmpPath); } catch {}
+      throw err;
+    }
+    this.mtimeMs = statSync(this.path).mtimeMs;
+  }
+}
+
+function entrySize(key: string, value: string): number {
+  return Buffer.byteLength(key) + Buffer.byteLength(value);
+}
+
+const files = new Map<string, CacheFile>();
+
+export function cacheDirectory(extensionName: string): string {
+  return join(getDataDir(), "cache", safeFileName(extensionName || "mcp-bridge"));
+}
+
+/**
+ * Disk-backed implementation of Raycast's Cache API for one extension.
+ * The synchronous API is kept, so persistence uses synchronous file I/O.
+ */
+export class ExtensionCache {
+  readonly storageDirectory: string;
+  private file: CacheFile;
+  private capacity: number;
+  private subscribers = new Set<CacheSubscriber>();
+
+  constructor(extensionName: string, options: CacheOptions = {}) {
+    this.storageDirectory = cacheDirectory(extensionName);
+    this.capacity = options.capacity ?? DEFAULT_CAPACITY;
+    const path = join(
+      this.storageDirectory,
+      `${safeFileName(options.namespace || "default")}.json`
+    );
+    let file = files.get(path);
+    if (!file) {
+      file = new CacheFile(path);
+      files.set(path, file);
+    }
+    this.file = file;
+  }
+
+  get isEmpty(): boolean {
+    this.file.sync();
+    return this.file.entries.size === 0;
+  }
+
+  get(key: string): string | undefined {
+    this.file.sync();
+    this.file.touch(key);
+    return this.file.entries.get(key);
+  }
+
+  has(key: string): boolean {
+    this.file.sync();
+    return this.file.entries.has(key);
+  }
+
+  set(key: string, data: string): void {
+    this.file.sync();
+    this.file.set(key, data, this.capacity);
+    this.file.persist();
+    this.notify(key, data);
+  }
+
+  remove(key: string): boolean {
+    this.file.sync();
+    const removed = this.file.delete(key);
+    if (removed) {
+      this.file.persist();
+      this.notify(key, undefined);
+    }
+    return removed;
+  }
+
+  clear(options: { notifySubscribers?: boolean } = {}): void {
+    this.file.clear();
+    this.file.persist();
+    if (options.notifySubscribers !== false) {
+      this.notify(undefined, undefined);
+    }
+  }
+
+  subscribe(subscriber: CacheSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  private notify(key: string | undefined, data: string | undefined): void {
+    for (const subscriber of this.subscribers) {
+      try {
+        subscriber(key, data);
+      } catch (err) {
+        console.error("raybridge: Cache subscriber threw:", err);
+      }
+    }
+  }
+}
@@ -1,8 +1,43 @@
 #!/usr/bin/env bun
 
 
-import { discoverExtensions, type ExtensionEntry } from "./discovery.js";
-import { loadToolsConfig, filterExtensions, getConfigPath, type ToolsConfig } from "./config.js";
+import { declaredPreferencesFor, discoverExtensions, type ExtensionEntry } from "./discovery.js";
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import {
+  loadToolsConfig,
+  loadPreferences,
+  filterExtensions,
+  getConfigPath,
+  getCredentialProviders,
+  getExtensionRoots,
+  getVaultPath,
+  getViewFormat,
+  migrateLegacyConfig,
+  type ToolsConfig,
+} from "./config.js";
+import { allItems, clearItems, listStorageExtensions } from "./local-storage.js";
+import { executeTool } from "./loader.js";
+import { setPreferences, setRaycastTokens } from "./shims.js";
+import { loadCredentials, loadCredentialsBySource } from "./credentials.js";
+import { readVaultFile, writeVaultFile } from "./vault.js";
+import { getSecretsPath, loadSecrets, removeSecret, setSecret } from "./secrets.js";
+import { exportCredentials, importCredentials } from "./bundle.js";
+import { getExtensionStatus, type ExtensionStatus } from "./status.js";
+import { accountName } from "./oauth.js";
+import {
+  clearStubUsage,
+  flushStubUsage,
+  getCoveragePath,
+  loadStubUsage,
+  rankStubUsage,
+} from "./coverage.js";
+import {
+  listTokenStoreExtensions,
+  loadStoredTokens,
+  type StoredTokenSet,
+} from "./token-store.js";
 
 const LOGO = `
 ██████╗  █████╗ ██╗   ██╗██████╗ ██████╗ ██╗██████╗  ██████╗ ███████╗
@@ -32,7 +67,8 @@ function getEnabledToolCount(ext: ExtensionEntry, config: ToolsConfig): number {
 function printSection(
   label: string,
   extensions: ExtensionEntry[],
-  config: ToolsConfig
+  config: ToolsConfig,
+  statuses: Map<string, ExtensionStatus>
 ): void {
   if (extensions.length === 0) return;
 
@@ -52,7 +88,13 @@ function printSection(
     const status = enabled ? "[x]" : "[ ]";
     const toolStats = enabled && enabledToolCount < totalToolCount ? ` (${enabledToolCount}/${totalToolCount})` : "";
 
-    console.log(`  ${status} ${ext.extensionTitle} - ${totalToolCount} tool${totalToolCount !== 1 ? "s" : ""}${toolStats}`);
+    const readiness = statuses.get(ext.extensionName);
+    const notReady = readiness && !readiness.ready ? " (not ready)" : "";
+
+    console.log(`  ${status} ${ext.extensionTitle} - ${totalToolCount} tool${totalToolCount !== 1 ? "s" : ""}${toolStats}${notReady}`);
+    for (const problem of readiness?.problems ?? []) {
+      console.log(`      ! ${problem}`);
+    }
 
     // Show individual tools if there's a tool filter
     if (extConfig?.tools && extConfig.tools.length > 0 && extConfig.tools.length < ext.tools.length) {
@@ -66,10 +108,8 @@ function printSection(
 }
 
 async function listExtensions(): Promise<void> {
-  const [extensions, config] = await Promise.all([
-    discoverExtensions(),
-    loadToolsConfig(),
-  ]);
+  const config = await loadToolsConfig();
+  const extensions = await discoverExtensions(config);
 
   const filteredExtensions = filterExtensions(extensions, config);
 
@@ -83,9 +123,400 @@ async function listExtensions(): Promise<void> {
   console.log("");
   console.log(`Config: ${getConfigPath()}`);
   console.log(`Mode: ${config.mode}`);
+  console.log(`Extension roots: ${getExtensionRoots(config).join(", ")}`);
+  console.log(`Exposure: ${config.exposure ?? "grouped"}`);
   console.log(`Total: ${enabledExts}/${totalExts} extensions, ${enabledTools}/${totalTools} tools`);
 
-  printSection("Extensions", extensions, config);
+  printSection("Extensions", extensions, config, await loadStatuses(extensions, config));
+}
+
+/** Auth and readiness status per extension, from the configured credentials. */
+async function loadStatuses(
+  extensions: ExtensionEntry[],
+  config: ToolsConfig
+): Promise<Map<string, ExtensionStatus>> {
+  const names = extensions.map((e) => e.extensionName);
+  const [credentials, manualPrefs] = await Promise.all([
+    loadCredentials(names, config),
+    loadPreferences(extensions),
+  ]);
+  const statuses = await Promise.all(
+    extensions.map((ext) =>
+      getExtensionStatus(ext, {
+        preferences: {
+          ...credentials.preferences[ext.extensionName],
+          ...manualPrefs[ext.extensionName],
+        },
+        tokens: credentials.tokens.get(ext.extensionName) ?? [],
+        failures: credentials.failures,
+        config,
+      })
+    )
+  );
+  return new Map(statuses.map((s) => [s.extension, s]));
+}
+
+async function storageCommand(args: string[]): Promise<void> {
+  const clear = args.includes("--clear");
+  const extName = args.find((a) => !a.startsWith("--"));
+
+  if (!extName) {
+    if (clear) {
+      console.error("Usage: raybridge storage <extension> --clear");
+      process.exit(1);
+    }
+    const names = await listStorageExtensions();
+    if (names.length === 0) {
+      console.log("No extensions have LocalStorage data.");
+      return;
+    }
+    console.log("Extensions with LocalStorage data:\n");
+    for (const name of names) {
+      const count = Object.keys(await allItems(name)).length;
+      console.log(`  ${name} - ${count} item${count !== 1 ? "s" : ""}`);
+    }
+    return;
+  }
+
+  if (clear) {
+    await clearItems(extName);
+    console.log(`Cleared LocalStorage for ${extName}`);
+    return;
+  }
+
+  const items = await allItems(extName);
+  if (Object.keys(items).length === 0) {
+    console.log(`No LocalStorage data for ${extName}`);
+    return;
+  }
+  console.log(JSON.stringify(items, null, 2));
+}
+
+/** Best-effort attempt to open a URL in the default browser. */
+function openInBrowser(url: string): void {
+  const command = process.platform === "darwin" ? "open" : "xdg-open";
+  try {
+    spawn(command, [url], { detached: true, stdio: "ignore" })
+      .on("error", () => {})
+      .unref();
+  } catch {
+    // The URL is printed as well
+  }
+}
+
+/**
+ * Run one of an extension's tools in the terminal so its OAuth flow can
+ * complete outside an MCP client. Tokens the extension sets are stored in
+ * raybridge's token store.
+ */
+async function authCommand(args: string[]): Promise<void> {
+  const accountIndex = args.indexOf("--account");
+  const account = accountIndex >= 0 ? args[accountIndex + 1] : undefined;
+  const positional = args.filter(
+    (_, i) => accountIndex < 0 || (i !== accountIndex && i !== accountIndex + 1)
+  );
+  const [extName, toolName, inputJson] = positional;
+  if (!extName || !toolName || (accountIndex >= 0 && !account)) {
+    console.error("Usage: raybridge auth <extension> <tool> [json-input] [--account <name>]");
+    process.exit(1);
+  }
+
+  const config = await loadToolsConfig();
+  const extensions = await discoverExtensions(config);
+  const ext = extensions.find((e) => e.extensionName === extName);
+  if (!ext) {
+    console.error(`Unknown extension "${extName}"`);
+    process.exit(1);
+  }
+  const tool = ext.tools.find((t) => t.name === toolName);
+  if (!tool) {
+    console.error(`Unknown tool "${toolName}". Available: ${ext.tools.map((t) => t.name).join(", ")}`);
+    process.exit(1);
+  }
+
+  let input: Record<string, unknown> = {};
+  try {
+    input = inputJson ? JSON.parse(inputJson) : {};
+  } catch {
+    console.error("Input must be valid JSON");
+    process.exit(1);
+  }
+
+  const manualPrefs = await loadPreferences();
+  const credentials = await loadCredentials([extName], config);
+  setRaycastTokens(credentials.tokens);
+  setPreferences({
+    [extName]: { ...(credentials.preferences[extName] || {}), ...(manualPrefs[extName] || {}) },
+  });
+
+  const target = account ? `${ext.extensionTitle} (account "${account}")` : ext.extensionTitle;
+  console.log(`Running ${extName}/${toolName} to authorize ${target}...`);
+  const result = await executeTool(tool.jsPath, input, ext.extensionName, ext.extensionDir, {
+    declaredPreferences: declaredPreferencesFor(ext, tool),
+    command:
+      tool.kind === "command"
+        ? { name: tool.name, mode: tool.commandMode!, viewFormat: getViewFormat(config, extName) }
+        : undefined,
+    client: {
+      openAuthorizationUrl: async ({ url }) => {
+        console.log(`\nOpen this URL to authorize:\n\n  ${url}\n\nWaiting for the redirect...`);
+        openInBrowser(url);
+        return true;
+      },
+    },
+    account,
+  });
+
+  console.log(`\nDone. Tool result:\n${result.slice(0, 500)}`);
+}
+
+/** Show only the last few characters of a secret. */
+function redact(secret: string | undefined): string {
+  if (!secret) return "-";
+  return secret.length > 12 ? `****${secret.slice(-4)}` : "****";
+}
+
+function describeTokenSet(tokens: StoredTokenSet, source: string): string {
+  const provider = tokens.providerName ?? tokens.providerId ?? "-";
+  let expiry = "no expiry";
+  if (tokens.expiresIn && tokens.updatedAt) {
+    const expiresAt = new Date(new Date(tokens.updatedAt).getTime() + tokens.expiresIn * 1000);
+    expiry = expiresAt.getTime() < Date.now()
+      ? `expired ${expiresAt.toISOString()}`
+      : `expires ${expiresAt.toISOString()}`;
+  }
+  return [
+    `    ${accountName(tokens)} (${source})`,
+    `      provider: ${provider}`,
+    `      access token: ${redact(tokens.accessToken)}, refresh token: ${tokens.refreshToken ? redact(tokens.refreshToken) : "none"}`,
+    `      ${expiry}${tokens.scope ? `, scope: ${tokens.scope}` : ""}`,
+  ].join("\n");
+}
+
+/** List OAuth token sets per extension, with secrets redacted. */
+async function accountsCommand(args: string[]): Promise<void> {
+  const config = await loadToolsConfig();
+  const names = args[0]
+    ? [args[0]]
+    : [
+        ...new Set([
+          ...(await discoverExtensions(config)).map((e) => e.extensionName),
+          ...(await listTokenStoreExtensions()),
+        ]),
+      ].sort();
+  const { sources: bySource } = await loadCredentialsBySource(names, config);
+
+  let found = false;
+  for (const name of names) {
+    const stored = await loadStoredTokens(name);
+    const fromProviders = getCredentialProviders(config, name).flatMap((source) =>
+      (bySource.get(source)?.tokens.get(name) ?? []).map((tokens) => ({ source, tokens }))
+    );
+    if (stored.length === 0 && fromProviders.length === 0) continue;
+    found = true;
+    console.log(`\n  ${name}`);
+    for (const tokens of stored) console.log(describeTokenSet(tokens, "raybridge"));
+    for (const { source, tokens } of fromProviders) console.log(describeTokenSet(tokens, source));
+  }
+
+  if (!found) {
+    console.log(args[0] ? `No OAuth accounts for ${args[0]}` : "No OAuth accounts found.");
+  }
+}
+
+/**
+ * Manage the encrypted credentials vault. `import` encrypts a plain JSON
+ * file into the vault; `show` lists what it holds without secret values.
+ */
+async function vaultCommand(args: string[]): Promise<void> {
+  const [action, file] = args;
+  const config = await loadToolsConfig();
+  const vaultPath = getVaultPath(config);
+
+  if (action === "import" && file) {
+    const plaintext = await readFile(file, "utf-8");
+    JSON.parse(plaintext);
+    await writeVaultFile(vaultPath, plaintext, {
+      ageRecipients: config.credentials?.vault?.ageRecipients,
+    });
+    console.log(`Wrote ${vaultPath}`);
+    return;
+  }
+
+  if (action === "show") {
+    const entries = JSON.parse(
+      await readVaultFile(vaultPath, { ageIdentity: config.credentials?.vault?.ageIdentity })
+    ) as Record<string, { preferences?: Record<string, unknown>; tokens?: unknown }>;
+    for (const [name, entry] of Object.entries(entries)) {
+      const prefs = Object.keys(entry.preferences ?? {});
+      const tokenCount =
+        entry.tokens === undefined ? 0 : Array.isArray(entry.tokens) ? entry.tokens.length : 1;
+      console.log(`  ${name} - preferences: ${prefs.join(", ") || "none"}; token sets: ${tokenCount}`);
+    }
+    return;
+  }
+
+  console.error("Usage: raybridge vault import <json-file> | raybridge vault show");
+  process.exit(1);
+}
+
+/** Move legacy ray-ai-tools configuration into raybridge's files. */
+async function migrateCommand(): Promise<void> {
+  const backupDir = await migrateLegacyConfig();
+  if (!backupDir) {
+    console.log("No ray-ai-tools configuration to migrate.");
+    return;
+  }
+  console.log(`Migrated ray-ai-tools configuration into ${dirname(getConfigPath())}`);
+  console.log(`The old directory was moved to ${backupDir}`);
+}
+
+/** Rank the auto-stubbed Raycast APIs tool calls have used, most-used first. */
+async function coverageCommand(args: string[]): Promise<void> {
+  if (args.includes("--reset")) {
+    await clearStubUsage();
+    console.log("Cleared shim coverage data.");
+    return;
+  }
+
+  const limitIndex = args.indexOf("--limit");
+  const limit = limitIndex >= 0 ? parseInt(args[limitIndex + 1] ?? "", 10) : 20;
+  if (Number.isNaN(limit) || limit <= 0) {
+    console.error("Usage: raybridge coverage [--limit <n>] [--json] [--reset]");
+    process.exit(1);
+  }
+
+  const ranked = rankStubUsage(await loadStubUsage());
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(ranked.slice(0, limit), null, 2));
+    return;
+  }
+  if (ranked.length === 0) {
+    console.log("No tool call has used an unimplemented Raycast API yet.");
+    return;
+  }
+
+  console.log("Unimplemented Raycast APIs used by tool calls, most-used first:\n");
+  ranked.slice(0, limit).forEach((stub, i) => {
+    const calls = `${stub.calls} call${stub.calls !== 1 ? "s" : ""}`;
+    const extensions = `${stub.extensions.length} extension${stub.extensions.length !== 1 ? "s" : ""}`;
+    console.log(`  ${String(i + 1).padStart(2)}. ${stub.path} (${stub.module}) - ${calls}, ${extensions}`);
+    const tools = Object.entries(stub.tools).sort((a, b) => b[1] - a[1]);
+    const shown = tools.slice(0, 3).map(([tool]) => tool).join(", ");
+    console.log(`      ${shown}${tools.length > 3 ? `, +${tools.length - 3} more` : ""}`);
+  });
+  if (ranked.length > limit) {
+    console.log(`\n  ...and ${ranked.length - limit} more (--limit ${ranked.length} to show all)`);
+  }
+  console.log(`\nData: ${getCoveragePath()}`);
+}
+
+/** Read a value from stdin, without echoing it when stdin is a terminal. */
+async function readSecretValue(prompt: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    let data = "";
+    for await (const chunk of stdin) data += chunk;
+    return data.replace(/\r?\n$/, "");
+  }
+
+  process.stderr.write(prompt);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf-8");
+  return new Promise((resolve) => {
+    let value = "";
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          stdin.setRawMode(false);
+          stdin.off("data", onData);
+          stdin.pause();
+          process.stderr.write("\n");
+          resolve(value);
+          return;
+        }
+        if (char === "\u0003") {
+          process.stderr.write("\n");
+          process.exit(130);
+        }
+        value = char === "\u007f" ? value.slice(0, -1) : value + char;
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * Manage the encrypted secret store that preferences.json references as
+ * ${secret:NAME}. Values are never printed.
+ */
+async function secretCommand(args: string[]): Promise<void> {
+  const [action, name] = args;
+
+  if (action === "set" && name) {
+    const value = await readSecretValue(`Value for ${name}: `);
+    if (!value) {
+      console.error("No value given");
+      process.exit(1);
+    }
+    await setSecret(name, value);
+    console.log(`Stored ${name} in ${getSecretsPath()}. Reference it as \${secret:${name}}`);
+    return;
+  }
+
+  if (action === "remove" && name) {
+    const removed = await removeSecret(name);
+    console.log(removed ? `Removed ${name}` : `No secret named ${name}`);
+    return;
+  }
+
+  if (action === "list") {
+    const names = Object.keys(await loadSecrets()).sort();
+    if (names.length === 0) {
+      console.log("The secret store is empty.");
+      return;
+    }
+    for (const secret of names) console.log(`  ${secret}`);
+    return;
+  }
+
+  console.error("Usage: raybridge secret set <name> | secret remove <name> | secret list");
+  process.exit(1);
+}
+
+/**
+ * Snapshot extensions' credentials into an encrypted bundle. Without
+ * extension names, every installed extension is considered.
+ */
+async function exportCommand(args: string[]): Promise<void> {
+  const [file, ...names] = args;
+  if (!file) {
+    console.error("Usage: raybridge export <bundle-file> [extension...]");
+    process.exit(1);
+  }
+  const config = await loadToolsConfig();
+  const extensionNames =
+    names.length > 0 ? names : (await discoverExtensions(config)).map((e) => e.extensionName);
+  const exported = await exportCredentials(file, extensionNames, config);
+  if (exported.length === 0) {
+    console.log("No credentials found to export.");
+    return;
+  }
+  console.log(`Exported ${exported.length} extension${exported.length !== 1 ? "s" : ""} to ${file}:`);
+  for (const name of exported) console.log(`  ${name}`);
+}
+
+/** Merge an exported bundle into the vault. */
+async function importCommand(args: string[]): Promise<void> {
+  const [file] = args;
+  if (!file) {
+    console.error("Usage: raybridge import <bundle-file>");
+    process.exit(1);
+  }
+  const config = await loadToolsConfig();
+  const imported = await importCredentials(file, config);
+  console.log(`Imported ${imported.length} extension${imported.length !== 1 ? "s" : ""} into ${getVaultPath(config)}:`);
+  for (const name of imported) console.log(`  ${name}`);
 }
 
 function showHelp(): void {
@@ -97,13 +528,36 @@ Usage:
 
 Commands:
   config    Launch interactive TUI to configure extensions (default)
-  list      List all extensions and their status
+  list      List all extensions, their status and why any aren't ready
+  storage   Inspect or clear an extension's LocalStorage
+            storage [extension] [--clear]
+  auth      Authorize an extension's OAuth provider by running one of its tools
+            auth <extension> <tool> [json-input] [--account <name>]
+  accounts  List OAuth accounts per extension (secrets redacted)
+            accounts [extension]
+  vault     Encrypt credentials into the vault, or list its contents
+            vault import <json-file> | vault show
+  secret    Store secrets for preferences.json to reference as \${secret:NAME}
+            secret set <name> | secret remove <name> | secret list
+  migrate   Move legacy ~/.config/ray-ai-tools configuration into raybridge
+  coverage  Rank the unimplemented Raycast APIs tool calls have used
+            coverage [--limit <n>] [--json] [--reset]
+  export    Write extensions' preferences and OAuth tokens to an encrypted bundle
+            export <bundle-file> [extension...]
+  import    Merge an exported bundle into the vault
+            import <bundle-file>
   help      Show this help message
 
 Examples:
   raybridge           # Launch TUI
   raybridge config    # Launch TUI
   raybridge list      # Show extensions list
+  raybridge storage linear          # Show LocalStorage items for linear
+  raybridge storage linear --clear  # Clear LocalStorage for linear
+  raybridge auth linear search-issues --account work  # Sign in a second account
+  raybridge accounts linear         # Show linear's OAuth accounts
+  raybridge export creds.bundle linear  # Snapshot linear's credentials
+  raybridge coverage --limit 10     # Top 10 APIs to implement next
 `);
 }
 
@@ -120,6 +574,34 @@ async function main(): Promise<void> {
     case "list":
       await listExtensions();
       break;
+    case "storage":
+      await storageCommand(process.argv.slice(3));
+      break;
+    case "vault":
+      await vaultCommand(process.argv.slice(3));
+      break;
+    case "migrate":
+      await migrateCommand();
+      break;
+    case "coverage":
+      await coverageCommand(process.argv.slice(3));
+      break;
+    case "secret":
+      await secretCommand(process.argv.slice(3));
+      break;
+    case "export":
+      await exportCommand(process.argv.slice(3));
+      break;
+    case "import":
+      await importCommand(process.argv.slice(3));
+      break;
+    case "accounts":
+      await accountsCommand(process.argv.slice(3));
+      break;
+    case "auth":
+      await authCommand(process.argv.slice(3));
+      await flushStubUsage();
+      process.exit(0);
     case "help":
     case "--help":
     case "-h":
@@ -0,0 +1,139 @@
+import { randomUUID } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CreateMessageResultSchema,
+  ElicitResultSchema,
+  type ServerNotification,
+  type ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ConfirmationFallback } from "./config.js";
+import type { ClientBridge, ConfirmationResult } from "./context.js";
+
+const SAMPLING_MAX_TOKENS = 4096;
+
+const CONFIRMATION_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    confirm: {
+      type: "boolean" as const,
+      title: "Confirm",
+      description: "Allow this action to proceed",
+      default: false,
+    },
+  },
+  required: ["confirm"],
+};
+
+type HandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ClientBridgeOptions {
+  /** Policy applied by `confirm` when the client lacks elicitation */
+  confirmationFallback: ConfirmationFallback;
+  /** Whether the call passed `confirmed: true` */
+  confirmedByArgument: boolean;
+}
+
+function fallbackConfirmation(options: ClientBridgeOptions): ConfirmationResult {
+  switch (options.confirmationFallback) {
+    case "allow":
+      return { confirmed: true };
+    case "argument":
+      return options.confirmedByArgument
+        ? { confirmed: true }
+        : {
+            confirmed: false,
+            reason:
+              'This action requires confirmation. Ask the user to confirm, then call again with "confirmed": true.',
+          };
+    default:
+      return {
+        confirmed: false,
+        reason:
+          "This action requires confirmation, but the MCP client does not support elicitation.",
+      };
+  }
+}
+
+/**
+ * Build the client bridge for one tools/call request. Only methods backed
+ * by a capability the client advertised are present, so shims can report
+ * exactly what is missing. `confirm` is always present and applies the
+ * fallback policy for clients without elicitation.
+ */
+export function createClientBridge(
+  server: Server,
+  extra: HandlerExtra,
+  options: ClientBridgeOptions
+): ClientBridge {
+  const capabilities = server.getClientCapabilities() ?? {};
+  const bridge: ClientBridge = {};
+
+  bridge.confirm = async ({ title, message, signal }) => {
+    if (!capabilities.elicitation) {
+      return fallbackConfirmation(options);
+    }
+    try {
+      const result = await extra.sendRequest(
+        {
+          method: "elicitation/create",
+          params: {
+            message: message ? `${title}\n\n${message}` : title,
+            requestedSchema: CONFIRMATION_SCHEMA,
+          },
+        },
+        ElicitResultSchema,
+        { signal: signal ?? extra.signal }
+      );
+      if (result.action === "accept" && result.content?.confirm === true) {
+        return { confirmed: true };
+      }
+      return { confirmed: false, reason: "The user declined this action." };
+    } catch (err: any) {
+      return { confirmed: false, reason: `Confirmation prompt failed: ${err.message}` };
+    }
+  };
+
+  if (capabilities.elicitation) {
+    bridge.openAuthorizationUrl = async ({ url, message, signal }) => {
+      // URL-mode elicitation lets the client open the link itself; older
+      // clients get a form prompt that shows the link in its message
+      const params = capabilities.elicitation?.url
+        ? { mode: "url" as const, message, url, elicitationId: randomUUID() }
+        : {
+            message: `${message}\n\nOpen this link in your browser:\n${url}`,
+            requestedSchema: { type: "object" as const, properties: {} },
+          };
+      const result = await extra.sendRequest(
+        { method: "elicitation/create", params },
+        ElicitResultSchema,
+        { signal: signal ?? extra.signal }
+      );
+      return result.action === "accept";
+    };
+  }
+
+  if (capabilities.sampling) {
+    bridge.createMessage = async (prompt, { temperature, model, signal }) => {
+      const result = await extra.sendRequest(
+        {
+          method: "sampling/createMessage",
+          params: {
+            messages: [{ role: "user", content: { type: "text", text: prompt } }],
+            maxTokens: SAMPLING_MAX_TOKENS,
+            temperature,
+            modelPreferences: model ? { hints: [{ name: model }] } : undefined,
+          },
+        },
+        CreateMessageResultSchema,
+        { signal: signal ?? extra.signal }
+      );
+      const blocks = Array.isArray(result.content) ? result.content : [result.content];
+      return blocks
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+    };
+  }
+
+  return bridge;
+}
@@ -1,36 +1,360 @@
-import { readFile, writeFile, mkdir } from "node:fs/promises";
-import { join, dirname } from "node:path";
+import { readFile, writeFile, mkdir, rename } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join, dirname, delimiter, resolve } from "node:path";
 import { homedir } from "node:os";
 import type { ExtensionEntry } from "./discovery.js";
+import { writeJsonFileAtomic } from "./file-store.js";
+import {
+  getLegacyConfigDir,
+  mergeLegacyPreferences,
+  mergeLegacyToolsConfig,
+  readLegacyPreferences,
+  readLegacyToolsConfig,
+  type PreferencesFile,
+} from "./legacy.js";
+import { plaintextPasswords, resolvePreferenceReferences } from "./secrets.js";
+import type { ViewFormat } from "./views.js";
+
+/**
+ * How an extension's tools are surfaced to MCP clients:
+ * - grouped: one MCP tool per extension, dispatched via `tool_name` + `input`
+ * - per-tool: one MCP tool per Raycast tool (e.g. `linear__create_issue`)
+ *   carrying that tool's own input schema
+ */
+export type ExposureMode = "grouped" | "per-tool";
+
+/**
+ * Where tool code runs:
+ * - in-process: required into the server process (fast, no isolation)
+ * - subprocess: a fresh child process per call, so crashes, hangs and
+ *   memory leaks cannot take down the server
+ */
+export type IsolationMode = "in-process" | "subprocess";
+
+export interface ExecutionConfig {
+  isolation?: IsolationMode;
+  /** Wall-clock limit per call in milliseconds (0 disables) */
+  timeoutMs?: number;
+  /** Memory cap per call in megabytes (subprocess isolation only) */
+  memoryLimitMb?: number;
+}
+
+/**
+ * What to do when a confirmation is needed but the client cannot show an
+ * elicitation prompt:
+ * - deny: refuse the action
+ * - allow: proceed without asking
+ * - argument: proceed only if the call passed `confirmed: true`
+ */
+export type ConfirmationFallback = "deny" | "allow" | "argument";
+
+/**
+ * Where preferences and OAuth tokens come from:
+ * - env: RAYBRIDGE_PREFERENCES_<EXT> / RAYBRIDGE_TOKENS_<EXT> variables
+ * - vault: raybridge's encrypted vault file (passphrase or age)
+ * - command: JSON printed by an external command
+ * - raycast: Raycast's encrypted database (macOS Keychain + sqlcipher)
+ */
+export type CredentialProviderName = "env" | "vault" | "command" | "raycast";
+
+export interface CredentialsConfig {
+  /** Providers in precedence order (first wins) */
+  providers?: CredentialProviderName[];
+  vault?: {
+    /** Defaults to ~/.config/raybridge/vault.enc */
+    path?: string;
+    /** age identity file, for vaults encrypted with age */
+    ageIdentity?: string;
+    /** age recipients file, for writing vaults encrypted with age */
+    ageRecipients?: string;
+  };
+  command?: {
+    command: string;
+    args?: string[];
+    timeoutMs?: number;
+  };
+}
 
 export interface ExtensionConfig {
   enabled: boolean;
   tools?: string[];
+  exposure?: ExposureMode;
+  execution?: ExecutionConfig;
+  confirmationFallback?: ConfirmationFallback;
+  /** OAuth account used unless a session or call picks another */
+  account?: string;
+  /** OAuth accounts a call may choose between via its `account` argument */
+  accounts?: string[];
+  /** Credential providers for this extension, in precedence order */
+  credentials?: CredentialProviderName[];
+  /** Also expose the extension's view and no-view commands as tools */
+  commands?: boolean;
+  viewFormat?: ViewFormat;
+  strictShims?: boolean;
 }
 
 export interface ToolsConfig {
   mode: "blocklist" | "allowlist";
+  /**
+   * Extra directories to discover extensions in: a directory of extensions
+   * or a single extension's directory. Relative paths are resolved against
+   * ~/.config/raybridge
+   */
+  extensionRoots?: string[];
+  /**
+   * Also discover an extension in the working directory when it holds a
+   * package.json (RAYBRIDGE_DISCOVER_CWD=1 does the same)
+   */
+  discoverWorkingDirectory?: boolean;
+  exposure?: ExposureMode;
+  execution?: ExecutionConfig;
+  confirmationFallback?: ConfirmationFallback;
+  credentials?: CredentialsConfig;
+  /** How rendered view commands are returned (default markdown) */
+  viewFormat?: ViewFormat;
+  /**
+   * Fail a call that invokes an auto-stubbed Raycast API instead of letting
+   * the stub return undefined
+   */
+  strictShims?: boolean;
   extensions: Record<string, ExtensionConfig>;
 }
 
+const DEFAULT_EXECUTION: Required<ExecutionConfig> = {
+  isolation: "in-process",
+  timeoutMs: 120_000,
+  memoryLimitMb: 512,
+};
+
 const CONFIG_DIR = join(homedir(), ".config", "raybridge");
 const CONFIG_PATH = join(CONFIG_DIR, "tools.json");
+const PREFERENCES_PATH = join(CONFIG_DIR, "preferences.json");
+const VAULT_PATH = join(CONFIG_DIR, "vault.enc");
+
+const DEFAULT_CREDENTIAL_PROVIDERS: CredentialProviderName[] = [
+  "env",
+  "vault",
+  "command",
+  "raycast",
+];
 
 export function getConfigPath(): string {
   return CONFIG_PATH;
 }
 
+export function getVaultPath(config: ToolsConfig): string {
+  const path = config.credentials?.vault?.path;
+  return path ? expandHome(path) : VAULT_PATH;
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+/** Raycast's directory of installed extensions. */
+export function getRaycastExtensionsDir(): string {
+  return join(homedir(), ".config", "raycast", "extensions");
+}
+
+/**
+ * Directories to discover extensions in, highest precedence first: paths
+ * in RAYBRIDGE_EXTENSION_ROOTS, `extensionRoots` from tools.json,
+ * Raycast's installed extensions and, when opted in, the working directory
+ * if it holds a package.json (a project-local extension under development).
+ * An extension name found in several roots is taken from the first.
+ */
+export function getExtensionRoots(config?: ToolsConfig): string[] {
+  const fromEnv = (process.env.RAYBRIDGE_EXTENSION_ROOTS ?? "")
+    .split(delimiter)
+    .filter(Boolean)
+    .map((p) => resolve(expandHome(p)));
+  const fromConfig = (config?.extensionRoots ?? []).map((p) =>
+    resolve(CONFIG_DIR, expandHome(p))
+  );
+  const cwdOptIn = process.env.RAYBRIDGE_DISCOVER_CWD;
+  const discoverCwd = cwdOptIn
+    ? cwdOptIn !== "0" && cwdOptIn !== "false"
+    : config?.discoverWorkingDirectory === true;
+  const projectLocal =
+    discoverCwd && existsSync(join(process.cwd(), "package.json")) ? [process.cwd()] : [];
+  return [
+    ...new Set([...fromEnv, ...fromConfig, getRaycastExtensionsDir(), ...projectLocal]),
+  ];
+}
+
+/**
+ * Directory for state raybridge persists on behalf of extensions
+ * (LocalStorage, caches, ...). Override with RAYBRIDGE_DATA_DIR.
+ */
+export function getDataDir(): string {
+  return (
+    process.env.RAYBRIDGE_DATA_DIR ||
+    join(homedir(), ".local", "share", "raybridge")
+  );
+}
+
+async function readToolsConfig(): Promise<ToolsConfig | undefined> {
+  try {
+    return JSON.parse(await readFile(CONFIG_PATH, "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+/** tools.json, merged over the legacy ray-ai-tools one if that exists. */
 export async function loadToolsConfig(): Promise<ToolsConfig> {
+  const [config, legacy] = await Promise.all([readToolsConfig(), readLegacyToolsConfig()]);
+  if (legacy) return mergeLegacyToolsConfig(config, legacy);
+  // Default config if the file doesn't exist
+  return config ?? { mode: "blocklist", extensions: {} };
+}
+
+/**
+ * Resolve the exposure mode for an extension.
+ * Per-extension setting wins over the global one; defaults to grouped.
+ */
+export function getExposureMode(
+  config: ToolsConfig,
+  extensionName: string
+): ExposureMode {
+  return (
+    config.extensions[extensionName]?.exposure ?? config.exposure ?? "grouped"
+  );
+}
+
+/**
+ * Resolve execution settings for an extension.
+ * Per-extension values override global ones, which override defaults.
+ */
+export function getExecutionConfig(
+  config: ToolsConfig,
+  extensionName: string
+): Required<ExecutionConfig> {
+  return {
+    ...DEFAULT_EXECUTION,
+    ...config.execution,
+    ...config.extensions[extensionName]?.execution,
+  };
+}
+
+/**
+ * Resolve the confirmation fallback policy for an extension.
+ * Per-extension setting wins over the global one; defaults to argument.
+ */
+export function getConfirmationFallback(
+  config: ToolsConfig,
+  extensionName: string
+): ConfirmationFallback {
+  return (
+    config.extensions[extensionName]?.confirmationFallback ??
+    config.confirmationFallback ??
+    "argument"
+  );
+}
+
+/**
+ * OAuth account selection for an extension: the default account and the
+ * accounts offered to the model per call.
+ */
+export function getAccountConfig(
+  config: ToolsConfig,
+  extensionName: string
+): { account?: string; accounts: string[] } {
+  const ext = config.extensions[extensionName];
+  return { account: ext?.account, accounts: ext?.accounts ?? [] };
+}
+
+/** Whether an extension's commands are exposed as tools. */
+export function commandsEnabled(config: ToolsConfig, extensionName: string): boolean {
+  return config.extensions[extensionName]?.commands === true;
+}
+
+/**
+ * Resolve the output format of view commands for an extension.
+ * Per-extension setting wins over the global one; defaults to markdown.
+ */
+export function getViewFormat(config: ToolsConfig, extensionName: string): ViewFormat {
+  return config.extensions[extensionName]?.viewFormat ?? config.viewFormat ?? "markdown";
+}
+
+/**
+ * Whether an extension runs with strict shims.
+ * Per-extension setting wins over the global one; defaults to off.
+ */
+export function strictShimsEnabled(config: ToolsConfig, extensionName: string): boolean {
+  return config.extensions[extensionName]?.strictShims ?? config.strictShims ?? false;
+}
+
+/**
+ * Resolve credential provider precedence for an extension.
+ * Per-extension list wins over the global one, which wins over the default.
+ */
+export function getCredentialProviders(
+  config: ToolsConfig,
+  extensionName: string
+): CredentialProviderName[] {
+  return (
+    config.extensions[extensionName]?.credentials ??
+    config.credentials?.providers ??
+    DEFAULT_CREDENTIAL_PROVIDERS
+  );
+}
+
+async function readPreferencesFile(): Promise<PreferencesFile | undefined> {
   try {
-    const content = await readFile(CONFIG_PATH, "utf-8");
-    return JSON.parse(content);
+    return JSON.parse(await readFile(PREFERENCES_PATH, "utf-8"));
   } catch {
-    // Return default config if file doesn't exist
-    return {
-      mode: "blocklist",
-      extensions: {},
-    };
+    return undefined;
+  }
+}
+
+/** preferences.json merged over the legacy one, references unresolved. */
+async function readMergedPreferences(): Promise<PreferencesFile> {
+  const [prefs, legacy] = await Promise.all([readPreferencesFile(), readLegacyPreferences()]);
+  return legacy ? mergeLegacyPreferences(prefs ?? {}, legacy) : prefs ?? {};
+}
+
+/**
+ * Manual extension preferences from preferences.json (and the legacy
+ * ray-ai-tools one), keyed by extension name, with ${secret:...},
+ * ${env:...} and ${file:...} references resolved. Password-type
+ * preferences of the given extensions that hold a plaintext value instead
+ * of a reference are warned about, by name.
+ */
+export async function loadPreferences(
+  extensions: ExtensionEntry[] = []
+): Promise<Record<string, Record<string, unknown>>> {
+  const prefs = await readMergedPreferences();
+  for (const { extension, preference } of plaintextPasswords(prefs, extensions)) {
+    const secret = `${extension}-${preference}`;
+    console.error(
+      `raybridge: Password preference ${extension}.${preference} is stored as plaintext in preferences.json. Move it to the secret store with \`raybridge secret set ${secret}\` and set it to \${secret:${secret}}`
+    );
   }
+  return resolvePreferenceReferences(prefs);
+}
+
+/**
+ * Move ray-ai-tools configuration into raybridge's files, merged with
+ * what is already there, and rename the legacy directory so it is no
+ * longer read. Returns the backup directory, or undefined if there was
+ * nothing to migrate.
+ */
+export async function migrateLegacyConfig(): Promise<string | undefined> {
+  const legacyDir = getLegacyConfigDir();
+  if (!existsSync(legacyDir)) return undefined;
+
+  if (await readLegacyToolsConfig()) {
+    await saveToolsConfig(await loadToolsConfig());
+  }
+  if (await readLegacyPreferences()) {
+    await writeJsonFileAtomic(PREFERENCES_PATH, await readMergedPreferences());
+  }
+
+  let backupDir = `${legacyDir}.migrated`;
+  if (existsSync(backupDir)) backupDir += `-${Date.now()}`;
+  await rename(legacyDir, backupDir);
+  return backupDir;
 }
 
 export async function saveToolsConfig(config: ToolsConfig): Promise<void> {
@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { CommandMode, PreferenceEntry } from "./discovery.js";
+import type { TokenEndpoint } from "./token-store.js";
+
+export interface SamplingOptions {
+  temperature?: number;
+  /** Model name hint, e.g. "claude-sonnet" */
+  model?: string;
+  signal?: AbortSignal;
+}
+
+export interface ConfirmationRequest {
+  title: string;
+  message?: string;
+  signal?: AbortSignal;
+}
+
+export interface ConfirmationResult {
+  confirmed: boolean;
+  /** Why the action was not confirmed, phrased for the model */
+  reason?: string;
+}
+
+export interface AuthorizationPrompt {
+  url: string;
+  message: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Requests back to the connected MCP client on behalf of a tool call.
+ * A method is absent when the client lacks the matching capability.
+ */
+export interface ClientBridge {
+  /** Single-turn completion via MCP sampling (sampling/createMessage) */
+  createMessage?(prompt: string, options: SamplingOptions): Promise<string>;
+  /**
+   * Ask the user to confirm an action via MCP elicitation, falling back to
+   * the configured policy when the client cannot prompt
+   */
+  confirm?(request: ConfirmationRequest): Promise<ConfirmationResult>;
+  /**
+   * Show an OAuth authorization URL to the user via MCP elicitation.
+   * Resolves false if the user declines.
+   */
+  openAuthorizationUrl?(prompt: AuthorizationPrompt): Promise<boolean>;
+}
+
+/**
+ * Something a command showed or did, collected as its result:
+ * a HUD message, a toast (in its final state) or text copied to the
+ * clipboard.
+ */
+export type CommandOutput =
+  | { type: "hud"; text: string }
+  | { type: "toast"; style: string; title: string; message?: string }
+  | { type: "clipboard"; text: string };
+
+/** Extension context for a single tool call. */
+export interface ExtensionContext {
+  extensionName: string;
+  extensionDir: string;
+  /** Aborted when the MCP client cancels the call */
+  signal?: AbortSignal;
+  /** Reports progress for the call (driven by toasts) */
+  onProgress?: (message: string) => void;
+  /** Requests to the MCP client that issued the call */
+  client?: ClientBridge;
+  /** OAuth account to use when the extension has several */
+  account?: string;
+  /** Manifest preferences that apply to the call, for defaults and types */
+  declaredPreferences?: PreferenceEntry[];
+  /** Name of the command the call runs, if it runs one */
+  command?: string;
+  commandMode?: CommandMode;
+  /** Collects the command's output; set only for command calls */
+  output?: CommandOutput[];
+  /**
+   * Token endpoint of the call's last OAuth token request, saved for the
+   * provider whose setTokens receives its tokens
+   */
+  pendingTokenEndpoint?: TokenEndpoint;
+  /** Accesses to auto-stubbed APIs during the call, by `<module>:<path>` */
+  stubAccesses?: Map<string, number>;
+  /** Calling an auto-stubbed function throws instead of returning undefined */
+  strictShims?: boolean;
+  /** First auto-stubbed function a strict call invoked */
+  unsupportedApi?: Error;
+}
+
+/**
+ * Per-call extension context. Scoped with AsyncLocalStorage so concurrent
+ * calls (e.g. multiple HTTP sessions) never see each other's preferences
+ * or OAuth tokens, even across awaits and timers.
+ */
+const extensionContext = new AsyncLocalStorage<ExtensionContext>();
+
+const NO_EXTENSION: ExtensionContext = { extensionName: "", extensionDir: "" };
+
+/** Run `fn` with every shim resolving to the given extension. */
+export function runInExtensionContext<T>(
+  context: ExtensionContext,
+  fn: () => T
+): T {
+  return extensionContext.run(context, fn);
+}
+
+/** Context of the tool call currently executing (empty outside a call). */
+export function currentContext(): ExtensionContext {
+  return extensionContext.getStore() ?? NO_EXTENSION;
+}
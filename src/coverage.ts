@@ -0,0 +1,144 @@
+import { join } from "node:path";
+import { getDataDir } from "./config.js";
+import { currentContext } from "./context.js";
+import { readJsonFile, withFileLock, writeJsonFileAtomic } from "./file-store.js";
+
+/**
+ * Shim coverage: which auto-stubbed Raycast APIs extensions actually touch.
+ * Every access to an auto-stub is traced against the current call, summed
+ * up in a debug log line when the call ends (RAYBRIDGE_DEBUG=1), and added
+ * to an aggregate in the data directory that `raybridge coverage` ranks.
+ * Isolated calls trace in their worker, which writes the same file before
+ * it reports back.
+ */
+
+/** Usage of one auto-stubbed API, keyed by `<module>:<path>` */
+export interface StubUsage {
+  /** Tool calls that touched the API */
+  calls: number;
+  /** Accesses across those calls */
+  accesses: number;
+  /** Calls per `<extension>/<tool>` */
+  tools: Record<string, number>;
+  lastSeen: string;
+}
+
+export type StubUsageFile = Record<string, StubUsage>;
+
+export interface RankedStub extends StubUsage {
+  module: string;
+  path: string;
+  extensions: string[];
+}
+
+export function getCoveragePath(): string {
+  return join(getDataDir(), "shim-coverage.json");
+}
+
+export function isDebugEnabled(): boolean {
+  const value = process.env.RAYBRIDGE_DEBUG;
+  return !!value && value !== "0" && value !== "false";
+}
+
+/**
+ * Properties that runtimes, bundler interop and coercion read off any value
+ * (`__esModule`, `$$typeof`, `then`, `valueOf`, ...) rather than APIs an
+ * extension uses
+ */
+const PROBES = new Set([
+  "then", "toJSON", "toString", "valueOf", "constructor",
+  "name", "length", "displayName", "call", "apply", "bind",
+]);
+
+export function isProbe(path: string): boolean {
+  const prop = path.slice(path.lastIndexOf(".") + 1);
+  return /^[_$]/.test(prop) || PROBES.has(prop);
+}
+
+/** Record an access to an auto-stub, e.g. ("@raycast/api", "Form.TextField"). */
+export function traceStubAccess(module: string, path: string): void {
+  const accesses = currentContext().stubAccesses;
+  if (!accesses || isProbe(path)) return;
+  const key = `${module}:${path}`;
+  accesses.set(key, (accesses.get(key) ?? 0) + 1);
+}
+
+/** One line naming the auto-stubs a call touched, most accessed first. */
+export function formatStubSummary(call: string, accesses: Map<string, number>): string {
+  const entries = [...accesses].sort((a, b) => b[1] - a[1]);
+  return `${call} used ${entries.length} unimplemented API${entries.length !== 1 ? "s" : ""}: ${entries
+    .map(([key, count]) => `${key} ×${count}`)
+    .join(", ")}`;
+}
+
+/** Add one call's accesses to the aggregate, under its file lock. */
+export function recordStubUsage(call: string, accesses: Map<string, number>): Promise<void> {
+  const path = getCoveragePath();
+  return withFileLock(path, async () => {
+    const usage = await readJsonFile<StubUsageFile>(path, {});
+    const now = new Date().toISOString();
+    for (const [key, count] of accesses) {
+      const entry = (usage[key] ??= { calls: 0, accesses: 0, tools: {}, lastSeen: now });
+      entry.calls += 1;
+      entry.accesses += count;
+      entry.tools[call] = (entry.tools[call] ?? 0) + 1;
+      entry.lastSeen = now;
+    }
+    await writeJsonFileAtomic(path, usage);
+  });
+}
+
+// Recordings still being written, so readers and exiting commands can wait
+const pendingRecordings = new Set<Promise<void>>();
+
+/**
+ * Trace the end of a call: log its summary when debugging and start adding
+ * it to the aggregate in the background. Never throws, so coverage can't
+ * fail or delay a tool call.
+ */
+export function finishStubTrace(call: string, accesses: Map<string, number>): void {
+  if (accesses.size === 0) return;
+  if (isDebugEnabled()) {
+    console.error(`raybridge: [debug] ${formatStubSummary(call, accesses)}`);
+  }
+  const recording = recordStubUsage(call, accesses)
+    .catch((err) => {
+      console.error(`raybridge: Failed to record shim coverage: ${err}`);
+    })
+    .finally(() => pendingRecordings.delete(recording));
+  pendingRecordings.add(recording);
+}
+
+/** Wait for the recordings finishStubTrace started. */
+export async function flushStubUsage(): Promise<void> {
+  await Promise.all(pendingRecordings);
+}
+
+export async function loadStubUsage(): Promise<StubUsageFile> {
+  await flushStubUsage();
+  return readJsonFile<StubUsageFile>(getCoveragePath(), {});
+}
+
+export async function clearStubUsage(): Promise<void> {
+  const path = getCoveragePath();
+  await withFileLock(path, () => writeJsonFileAtomic(path, {}));
+}
+
+/** Most-used first: by calls, then by how many extensions use it, then accesses. */
+export function rankStubUsage(usage: StubUsageFile): RankedStub[] {
+  return Object.entries(usage)
+    .map(([key, entry]) => {
+      const split = key.lastIndexOf(":");
+      const extensions = [
+        ...new Set(Object.keys(entry.tools).map((call) => call.split("/")[0])),
+      ].sort();
+      return { ...entry, module: key.slice(0, split), path: key.slice(split + 1), extensions };
+    })
+    .sort(
+      (a, b) =>
+        b.calls - a.calls ||
+        b.extensions.length - a.extensions.length ||
+        b.accesses - a.accesses ||
+        a.path.localeCompare(b.path)
+    );
+}
@@ -0,0 +1,227 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { getRaycastDbPath, loadRaycastCredentials, type TokenSet } from "./auth.js";
+import {
+  getCredentialProviders,
+  getVaultPath,
+  type CredentialProviderName,
+  type ToolsConfig,
+} from "./config.js";
+import { readVaultFile } from "./vault.js";
+
+/** Preferences and OAuth token sets, keyed by extension name. */
+export interface Credentials {
+  preferences: Record<string, Record<string, unknown>>;
+  tokens: Map<string, TokenSet[]>;
+}
+
+/** Error messages of providers that failed to load. */
+export type CredentialFailures = Partial<Record<CredentialProviderName, string>>;
+
+/**
+ * A source of extension preferences and OAuth tokens. Providers load
+ * everything they hold for the given extensions in one go.
+ */
+export interface CredentialProvider {
+  readonly name: CredentialProviderName;
+  /** False when the provider isn't set up here; it is then skipped quietly */
+  available(): boolean;
+  load(extensionNames: string[]): Promise<Credentials>;
+}
+
+/**
+ * Per-extension entries as found in the vault and in external command
+ * output. Tokens may be a bare access token string.
+ */
+export type CredentialEntries = Record<
+  string,
+  {
+    preferences?: Record<string, unknown>;
+    tokens?: string | TokenSet | TokenSet[];
+  }
+>;
+
+const DEFAULT_COMMAND_TIMEOUT = 10_000;
+
+function toTokenSets(value: unknown): TokenSet[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map((item) => (typeof item === "string" ? { accessToken: item } : item))
+    .filter((item): item is TokenSet => typeof item?.accessToken === "string");
+}
+
+function fromEntries(entries: CredentialEntries): Credentials {
+  const credentials: Credentials = { preferences: {}, tokens: new Map() };
+  for (const [name, entry] of Object.entries(entries ?? {})) {
+    if (entry?.preferences) credentials.preferences[name] = entry.preferences;
+    if (entry?.tokens !== undefined) {
+      const sets = toTokenSets(entry.tokens);
+      if (sets.length > 0) credentials.tokens.set(name, sets);
+    }
+  }
+  return credentials;
+}
+
+/** Environment variable suffix for an extension, e.g. `my-ext` -> `MY_EXT`. */
+export function envSuffix(extensionName: string): string {
+  return extensionName.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+}
+
+const raycastProvider: CredentialProvider = {
+  name: "raycast",
+  available: () => existsSync(getRaycastDbPath()),
+  load: () => loadRaycastCredentials(),
+};
+
+/**
+ * RAYBRIDGE_PREFERENCES_<EXT> holds a JSON object of preferences and
+ * RAYBRIDGE_TOKENS_<EXT> an access token or JSON token set(s).
+ */
+const envProvider: CredentialProvider = {
+  name: "env",
+  available: () => true,
+  async load(extensionNames) {
+    const entries: CredentialEntries = {};
+    for (const name of extensionNames) {
+      const prefs = process.env[`RAYBRIDGE_PREFERENCES_${envSuffix(name)}`];
+      const tokens = process.env[`RAYBRIDGE_TOKENS_${envSuffix(name)}`];
+      if (!prefs && !tokens) continue;
+      entries[name] = {};
+      if (prefs) entries[name].preferences = JSON.parse(prefs);
+      if (tokens) {
+        entries[name].tokens = /^\s*[[{]/.test(tokens) ? JSON.parse(tokens) : tokens.trim();
+      }
+    }
+    return fromEntries(entries);
+  },
+};
+
+function createVaultProvider(config: ToolsConfig): CredentialProvider {
+  const path = getVaultPath(config);
+  return {
+    name: "vault",
+    available: () => existsSync(path),
+    load: async () =>
+      fromEntries(
+        JSON.parse(await readVaultFile(path, { ageIdentity: config.credentials?.vault?.ageIdentity }))
+      ),
+  };
+}
+
+/** Run a command with `input` on stdin, resolving with its stdout. */
+function runCommand(
+  file: string,
+  args: string[],
+  input: string,
+  timeoutMs: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      file,
+      args,
+      { encoding: "utf-8", timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 },
+      (err, stdout, stderr) => {
+        if (stderr) process.stderr.write(stderr);
+        if (!err) resolve(stdout);
+        else if (err.killed) reject(new Error(`${file} timed out after ${timeoutMs}ms`));
+        else reject(err);
+      }
+    );
+    child.stdin?.end(input);
+  });
+}
+
+/**
+ * Runs the configured command with `{"extensions": [...]}` on stdin; it
+ * prints the same JSON shape the vault holds.
+ */
+function createCommandProvider(config: ToolsConfig): CredentialProvider {
+  const command = config.credentials?.command;
+  return {
+    name: "command",
+    available: () => !!command?.command,
+    async load(extensionNames) {
+      const output = await runCommand(
+        command!.command,
+        command!.args ?? [],
+        JSON.stringify({ extensions: extensionNames }),
+        command!.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT
+      );
+      return fromEntries(JSON.parse(output));
+    },
+  };
+}
+
+function createProviders(config: ToolsConfig): Record<CredentialProviderName, CredentialProvider> {
+  return {
+    env: envProvider,
+    vault: createVaultProvider(config),
+    command: createCommandProvider(config),
+    raycast: raycastProvider,
+  };
+}
+
+/**
+ * Load credentials from each provider any of the given extensions uses,
+ * keyed by provider. Providers that aren't set up are left out; those that
+ * fail are left out and reported in `failures`.
+ */
+export async function loadCredentialsBySource(
+  extensionNames: string[],
+  config: ToolsConfig
+): Promise<{
+  sources: Map<CredentialProviderName, Credentials>;
+  failures: CredentialFailures;
+}> {
+  const providers = createProviders(config);
+  const wanted = new Set(
+    extensionNames.flatMap((name) => getCredentialProviders(config, name))
+  );
+
+  const loaded = new Map<CredentialProviderName, Credentials>();
+  const failures: CredentialFailures = {};
+  for (const name of wanted) {
+    const provider = providers[name];
+    if (!provider) {
+      console.error(`raybridge: Unknown credential provider "${name}"`);
+      continue;
+    }
+    if (!provider.available()) continue;
+    try {
+      loaded.set(name, await provider.load(extensionNames));
+    } catch (err: any) {
+      failures[name] = err?.message || String(err);
+      console.error(`raybridge: Could not load credentials from ${name}: ${failures[name]}`);
+    }
+  }
+  return { sources: loaded, failures };
+}
+
+/**
+ * Load preferences and OAuth tokens for the given extensions from every
+ * configured provider. Per extension, preferences from providers earlier in
+ * its precedence list win key by key, and token sets are listed in
+ * precedence order so the first provider's tokens are the default.
+ */
+export async function loadCredentials(
+  extensionNames: string[],
+  config: ToolsConfig
+): Promise<Credentials & { failures: CredentialFailures }> {
+  const { sources: loaded, failures } = await loadCredentialsBySource(extensionNames, config);
+  const credentials: Credentials = { preferences: {}, tokens: new Map() };
+  for (const extName of extensionNames) {
+    const order = getCredentialProviders(config, extName);
+    const prefs: Record<string, unknown> = {};
+    const tokens: TokenSet[] = [];
+    // Apply lowest precedence first so earlier providers overwrite
+    for (const name of [...order].reverse()) {
+      Object.assign(prefs, loaded.get(name)?.preferences[extName]);
+    }
+    for (const name of order) {
+      tokens.push(...(loaded.get(name)?.tokens.get(extName) ?? []));
+    }
+    if (Object.keys(prefs).length > 0) credentials.preferences[extName] = prefs;
+    if (tokens.length > 0) credentials.tokens.set(extName, tokens);
+  }
+  return { ...credentials, failures };
+}
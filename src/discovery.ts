@@ -1,89 +1,269 @@
+import { existsSync } from "node:fs";
 import { readdir, readFile, stat } from "node:fs/promises";
-import { join } from "node:path";
-import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import { commandsEnabled, getExtensionRoots, type ToolsConfig } from "./config.js";
+
+/**
+ * - tool: an AI tool from the manifest's `tools`, called with its input
+ * - command: a view or no-view command from `commands`, called with
+ *   `{ arguments, launchType }` props (opt-in per extension)
+ */
+export type ToolKind = "tool" | "command";
+
+/** A no-view command runs to completion; a view command is rendered headlessly. */
+export type CommandMode = "view" | "no-view";
+
+/** JSON Schema of a tool's input, as declared in the manifest. */
+export interface InputSchema {
+  type?: string;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+export interface PropertySchema {
+  type?: string;
+  description?: string;
+  [key: string]: unknown;
+}
 
 export interface ToolEntry {
+  kind: ToolKind;
+  /** Set for commands */
+  commandMode?: CommandMode;
   name: string;
   title: string;
   description: string;
   instructions?: string;
   confirmation: boolean;
-  inputSchema: Record<string, unknown>;
+  inputSchema: InputSchema;
   jsPath: string;
 }
 
+/** A preference declared in the extension manifest. */
+export interface PreferenceEntry {
+  name: string;
+  title: string;
+  /** textfield, password, checkbox, dropdown, appPicker, file, directory */
+  type: string;
+  required: boolean;
+  default?: unknown;
+  /** Dropdown options */
+  data?: Array<{ title: string; value: string }>;
+}
+
+function parsePreferences(declared: unknown): PreferenceEntry[] {
+  return (Array.isArray(declared) ? declared : [])
+    .filter((p: any) => p?.name)
+    .map((p: any) => ({
+      name: p.name,
+      title: p.title || p.label || p.name,
+      type: p.type || "textfield",
+      required: !!p.required,
+      default: p.default,
+      data: Array.isArray(p.data) ? p.data : undefined,
+    }));
+}
+
 export interface ExtensionEntry {
   extensionName: string;
   extensionTitle: string;
   extensionId: string;
   extensionDir: string;
   aiInstructions?: string;
+  /** Extension-level preferences */
+  preferences: PreferenceEntry[];
+  /** Command-level preferences, keyed by command name */
+  commandPreferences: Record<string, PreferenceEntry[]>;
   tools: ToolEntry[];
 }
 
-export async function discoverExtensions(): Promise<ExtensionEntry[]> {
-  const extensionsDir = join(homedir(), ".config", "raycast", "extensions");
-  const entries: ExtensionEntry[] = [];
+/**
+ * Manifest preferences that apply when running a tool or command:
+ * the extension's, plus a command's own.
+ */
+export function declaredPreferencesFor(ext: ExtensionEntry, tool: ToolEntry): PreferenceEntry[] {
+  if (tool.kind !== "command") return ext.preferences;
+  return [...ext.preferences, ...(ext.commandPreferences[tool.name] ?? [])];
+}
+
+/**
+ * Where a dev build keeps tool bundles, relative to the extension. Installed
+ * extensions have them in `tools/`; `ray build` and custom builds may put
+ * them under an output directory.
+ */
+const TOOL_DIRS = ["tools", "dist/tools", "build/tools", "dist", "build"];
+
+/** Command bundles sit next to package.json, or in a dev build's output. */
+const COMMAND_DIRS = ["", "dist", "build"];
 
-  let dirs: string[];
+/** The first of `dirs` holding any of the bundles, else the first of `dirs`. */
+function resolveBundleDir(extDir: string, dirs: string[], names: string[]): string {
+  for (const dir of dirs) {
+    if (names.some((name) => existsSync(join(extDir, dir, `${name}.js`)))) {
+      return join(extDir, dir);
+    }
+  }
+  return join(extDir, dirs[0]);
+}
+
+/**
+ * Input schema for a command's `arguments`. Raycast passes an empty
+ * string for optional arguments left blank, and a dropdown always has an
+ * option selected, so they default to "" or the first option.
+ */
+function argumentsSchema(args: unknown): InputSchema {
+  const properties: Record<string, PropertySchema> = {};
+  const required: string[] = [];
+  for (const arg of Array.isArray(args) ? args : []) {
+    if (!arg?.name) continue;
+    const property: PropertySchema = {
+      type: "string",
+      description: arg.placeholder || arg.name,
+    };
+    const options = arg.type === "dropdown" && Array.isArray(arg.data)
+      ? arg.data.map((d: any) => d.value)
+      : undefined;
+    if (options) property.enum = options;
+    if (arg.required) required.push(arg.name);
+    else property.default = options?.[0] ?? "";
+    properties[arg.name] = property;
+  }
+  return required.length > 0
+    ? { type: "object", properties, required }
+    : { type: "object", properties };
+}
+
+/** The manifest's view and no-view commands, except those named like a tool. */
+function readCommands(extDir: string, pkg: any, toolNames: Set<string>): ToolEntry[] {
+  const commands = (Array.isArray(pkg.commands) ? pkg.commands : []).filter(
+    (c: any) => c?.name && (c.mode === "view" || c.mode === "no-view")
+  );
+  const commandDir = resolveBundleDir(extDir, COMMAND_DIRS, commands.map((c: any) => c.name));
+  return commands
+    .filter((c: any) => {
+      if (!toolNames.has(c.name)) return true;
+      console.error(`raybridge: Skipping command ${pkg.name}/${c.name}, a tool has the same name`);
+      return false;
+    })
+    .map((c: any) => ({
+      kind: "command" as const,
+      commandMode: c.mode,
+      name: c.name,
+      title: c.title || c.name,
+      description: c.description || c.title || "",
+      confirmation: false,
+      inputSchema: argumentsSchema(c.arguments),
+      jsPath: join(commandDir, `${c.name}.js`),
+    }));
+}
+
+async function readExtension(
+  extDir: string,
+  config?: ToolsConfig
+): Promise<ExtensionEntry | undefined> {
+  let pkg: any;
   try {
-    dirs = await readdir(extensionsDir);
+    pkg = JSON.parse(await readFile(join(extDir, "package.json"), "utf-8"));
   } catch {
-    console.error(`Cannot read ${extensionsDir}`);
-    return [];
+    return undefined;
   }
 
-  for (const dirName of dirs) {
-    const extDir = join(extensionsDir, dirName);
-    const pkgPath = join(extDir, "package.json");
+  const dirName = basename(extDir);
+  const extensionName = pkg.name || dirName;
+  const tools = Array.isArray(pkg.tools) ? pkg.tools : [];
+  const toolDir = resolveBundleDir(extDir, TOOL_DIRS, tools.map((t: any) => t.name));
+  const toolEntries: ToolEntry[] = tools.map((t: any) => ({
+    kind: "tool" as const,
+    name: t.name,
+    title: t.title || t.name,
+    description: t.description || "",
+    instructions: t.instructions,
+    confirmation: !!t.confirmation,
+    inputSchema: t.input || { type: "object", properties: {} },
+    jsPath: join(toolDir, `${t.name}.js`),
+  }));
+  if (config && commandsEnabled(config, extensionName)) {
+    toolEntries.push(...readCommands(extDir, pkg, new Set(tools.map((t: any) => t.name))));
+  }
+  if (toolEntries.length === 0) return undefined;
+
+  const commandPreferences: Record<string, PreferenceEntry[]> = {};
+  for (const command of Array.isArray(pkg.commands) ? pkg.commands : []) {
+    const prefs = parsePreferences(command?.preferences);
+    if (command?.name && prefs.length > 0) commandPreferences[command.name] = prefs;
+  }
+
+  return {
+    extensionName,
+    extensionTitle: pkg.title || pkg.name || dirName,
+    extensionId: dirName,
+    extensionDir: extDir,
+    aiInstructions: pkg.ai?.instructions,
+    preferences: parsePreferences(pkg.preferences),
+    commandPreferences,
+    tools: toolEntries,
+  };
+}
 
-    let pkg: any;
+/**
+ * Extensions in one root: the root itself if it has a package.json,
+ * otherwise each of its subdirectories. Of several directories with the
+ * same extension name, the newest is kept.
+ */
+async function discoverRoot(root: string, config?: ToolsConfig): Promise<ExtensionEntry[]> {
+  let extDirs: string[];
+  if (existsSync(join(root, "package.json"))) {
+    extDirs = [root];
+  } else {
     try {
-      pkg = JSON.parse(await readFile(pkgPath, "utf-8"));
+      extDirs = (await readdir(root)).map((dirName) => join(root, dirName));
     } catch {
-      continue;
+      console.error(`Cannot read ${root}`);
+      return [];
     }
-
-    const tools = pkg.tools;
-    if (!Array.isArray(tools) || tools.length === 0) continue;
-
-    const toolEntries: ToolEntry[] = tools.map((t: any) => ({
-      name: t.name,
-      title: t.title || t.name,
-      description: t.description || "",
-      instructions: t.instructions,
-      confirmation: !!t.confirmation,
-      inputSchema: t.input || { type: "object", properties: {} },
-      jsPath: join(extDir, "tools", `${t.name}.js`),
-    }));
-
-    entries.push({
-      extensionName: pkg.name || dirName,
-      extensionTitle: pkg.title || pkg.name || dirName,
-      extensionId: dirName,
-      extensionDir: extDir,
-      aiInstructions: pkg.ai?.instructions,
-      tools: toolEntries,
-    });
   }
 
-  // Deduplicate: keep the newest directory per extension name
   const byName = new Map<string, ExtensionEntry>();
-  for (const entry of entries) {
+  for (const extDir of extDirs) {
+    const entry = await readExtension(extDir, config);
+    if (!entry) continue;
     const existing = byName.get(entry.extensionName);
     if (!existing) {
       byName.set(entry.extensionName, entry);
     } else {
       // Compare directory mtime, keep newer
       const [aStat, bStat] = await Promise.all([
-        stat(join(extensionsDir, existing.extensionId)).catch(() => null),
-        stat(join(extensionsDir, entry.extensionId)).catch(() => null),
+        stat(existing.extensionDir).catch(() => null),
+        stat(entry.extensionDir).catch(() => null),
       ]);
       if (bStat && (!aStat || bStat.mtimeMs > aStat.mtimeMs)) {
         byName.set(entry.extensionName, entry);
       }
     }
   }
+  return Array.from(byName.values());
+}
 
+/**
+ * Discover extensions with AI tools, or with commands where `commands`
+ * is enabled, in every extension root (see getExtensionRoots). An
+ * extension name in several roots is taken from the root with the highest
+ * precedence.
+ */
+export async function discoverExtensions(config?: ToolsConfig): Promise<ExtensionEntry[]> {
+  const byName = new Map<string, ExtensionEntry>();
+  for (const root of getExtensionRoots(config)) {
+    for (const entry of await discoverRoot(root, config)) {
+      const existing = byName.get(entry.extensionName);
+      if (existing) {
+        console.error(
+          `raybridge: Using ${entry.extensionName} from ${existing.extensionDir}, ignoring ${entry.extensionDir}`
+        );
+        continue;
+      }
+      byName.set(entry.extensionName, entry);
+    }
+  }
   return Array.from(byName.values());
 }
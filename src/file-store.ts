@@ -0,0 +1,126 @@
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 5000;
+/**
+ * A lock without an owner PID older than this is assumed to belong to a
+ * process that crashed while taking it. Shorter than LOCK_TIMEOUT_MS, so
+ * waiters break it before giving up.
+ */
+const LOCK_STALE_MS = 1000;
+
+/** In-process queues so calls in the same process never race each other */
+const queues = new Map<string, Promise<unknown>>();
+
+/** File name for per-extension data, safe on every platform. */
+export function safeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, "_");
+}
+
+export async function readJsonFile<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write a file atomically: write a sibling temp file, then rename it over
+ * the target so readers never observe a partial write.
+ */
+export async function writeFileAtomic(
+  path: string,
+  data: string | Buffer,
+  mode = 0o600
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = join(
+    dirname(path),
+    `.${randomBytes(6).toString("hex")}.tmp`
+  );
+  try {
+    await writeFile(tmpPath, data, { mode });
+    await rename(tmpPath, path);
+  } catch (err) {
+    await unlink(tmpPath).catch(() => {});
+    throw err;
+  }
+}
+
+export async function writeJsonFileAtomic(path: string, value: unknown): Promise<void> {
+  await writeFileAtomic(path, JSON.stringify(value, null, 2) + "\n");
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err: any) {
+    // EPERM: the process exists but belongs to another user
+    return err.code === "EPERM";
+  }
+}
+
+/**
+ * Whether a lock was left behind: its owner, whose PID it holds, is gone
+ * (a crashed or killed isolated worker), or it never got an owner.
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  const owner = Number.parseInt(await readFile(lockPath, "utf-8").catch(() => ""), 10);
+  if (owner > 0) return !isProcessAlive(owner);
+  const lockStat = await stat(lockPath).catch(() => null);
+  return !!lockStat && Date.now() - lockStat.mtimeMs > LOCK_STALE_MS;
+}
+
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  await mkdir(dirname(lockPath), { recursive: true });
+
+  for (;;) {
+    try {
+      const handle = await open(lockPath, "wx");
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (err: any) {
+      if (err.code !== "EEXIST") throw err;
+    }
+
+    if (await isStaleLock(lockPath)) {
+      await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock on `path`. Serialises callers
+ * in this process and, via a `.lock` file, across processes (isolated
+ * tool workers share the same files).
+ */
+export function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const previous = queues.get(path) ?? Promise.resolve();
+  const run = previous
+    .catch(() => {})
+    .then(async () => {
+      const lockPath = `${path}.lock`;
+      await acquireLock(lockPath);
+      try {
+        return await fn();
+      } finally {
+        await unlink(lockPath).catch(() => {});
+      }
+    });
+  queues.set(path, run);
+  run.finally(() => {
+    if (queues.get(path) === run) queues.delete(path);
+  }).catch(() => {});
+  return run;
+}
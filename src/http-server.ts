@@ -3,7 +3,8 @@ import { randomUUID } from "crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
-import { createMcpServer, type ServerContext } from "./index.js";
+import { createMcpServer, getExtensionStatuses, type ServerContext } from "./index.js";
+import { flushStubUsage } from "./coverage.js";
 
 interface HttpServerOptions {
   port: number;
@@ -14,6 +15,19 @@ interface HttpServerOptions {
   onServerClosed?: (server: Server) => void;
 }
 
+/**
+ * Parse the X-Raybridge-Account header (`extension=account, ...`) that picks
+ * OAuth accounts for a whole session.
+ */
+function parseAccountHeader(header: string | undefined): Record<string, string> {
+  const accounts: Record<string, string> = {};
+  for (const pair of (header ?? "").split(",")) {
+    const [extension, account] = pair.split("=").map((s) => s.trim());
+    if (extension && account) accounts[extension] = account;
+  }
+  return accounts;
+}
+
 interface Session {
   transport: StreamableHTTPServerTransport;
   server: Server;
@@ -32,7 +46,7 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
     res.header("Access-Control-Allow-Origin", "*");
     res.header(
       "Access-Control-Allow-Headers",
-      "Content-Type, mcp-session-id, Authorization"
+      "Content-Type, mcp-session-id, Authorization, X-Raybridge-Account"
     );
     res.header("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
     res.header("Access-Control-Expose-Headers", "mcp-session-id");
@@ -44,12 +58,19 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
   });
 
   // Health check endpoint (before JSON parsing to avoid issues)
-  app.get("/health", (_req: Request, res: Response) => {
+  // Needs no API key, so it names the extensions that aren't ready but
+  // leaves why (accounts, token states) to /status
+  app.get("/health", async (_req: Request, res: Response) => {
+    const notReady = (await getExtensionStatuses(ctx))
+      .filter((s) => !s.ready)
+      .map((s) => s.extension);
     res.json({
       status: "ok",
       sessions: sessions.size,
       extensions: ctx.extensions.length,
       tools: ctx.tools.length,
+      notReady: notReady.length,
+      notReadyExtensions: notReady,
     });
   });
 
@@ -69,6 +90,15 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
     });
   }
 
+  // Per-extension readiness, behind the API key like /mcp
+  app.get("/status", async (_req: Request, res: Response) => {
+    const statuses = await getExtensionStatuses(ctx);
+    res.json({
+      notReady: statuses.filter((s) => !s.ready).length,
+      extensions: statuses,
+    });
+  });
+
   // MCP endpoint - handles all HTTP methods
   app.all("/mcp", async (req: Request, res: Response) => {
     const sessionId = req.headers["mcp-session-id"] as string | undefined;
@@ -83,10 +113,13 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
 
     // Handle new session (initialize request)
     if (!sessionId && req.method === "POST" && isInitializeRequest(req.body)) {
+      const accounts = parseAccountHeader(
+        req.headers["x-raybridge-account"] as string | undefined
+      );
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
         onsessioninitialized: (id: string) => {
-          const server = createMcpServer(ctx);
+          const server = createMcpServer(ctx, { accounts });
           server.connect(transport);
           sessions.set(id, {
             transport,
@@ -145,6 +178,7 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
       await session.server.close();
       console.error(`raybridge: Closed session: ${id}`);
     }
+    await flushStubUsage();
     process.exit(0);
   });
 
@@ -154,6 +188,7 @@ export async function startHttpServer(options: HttpServerOptions): Promise<void>
       onServerClosed?.(session.server);
       await session.server.close();
     }
+    await flushStubUsage();
     process.exit(0);
   });
 
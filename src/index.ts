@@ -1,126 +1,389 @@
+import { createHash } from "node:crypto";
+import { dirname } from "node:path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { readFile } from "node:fs/promises";
-import { join } from "node:path";
-import { homedir } from "node:os";
-import { discoverExtensions, type ExtensionEntry } from "./discovery.js";
+import {
+  declaredPreferencesFor,
+  discoverExtensions,
+  type ExtensionEntry,
+  type InputSchema,
+  type PropertySchema,
+  type ToolEntry,
+} from "./discovery.js";
 import { executeTool } from "./loader.js";
-import { setPreferences, setRaycastTokens } from "./shims.js";
-import { loadRaycastTokens, loadRaycastPreferences } from "./auth.js";
-import { loadToolsConfig, filterExtensions } from "./config.js";
+import { validateInput, type SchemaViolation } from "./schema.js";
+import { MissingPreferencesError } from "./preferences.js";
+import { createClientBridge } from "./client-bridge.js";
+import {
+  getExtensionPreferences,
+  getExtensionTokens,
+  setPreferences,
+  setRaycastTokens,
+  UnsupportedRaycastApiError,
+} from "./shims.js";
+import { loadCredentials, type CredentialFailures } from "./credentials.js";
+import {
+  loadToolsConfig,
+  loadPreferences,
+  filterExtensions,
+  getExposureMode,
+  getExecutionConfig,
+  getConfirmationFallback,
+  getAccountConfig,
+  getExtensionRoots,
+  getViewFormat,
+  strictShimsEnabled,
+  type ConfirmationFallback,
+  type ToolsConfig,
+} from "./config.js";
 import { startExtensionWatcher } from "./watcher.js";
+import {
+  formatExtensionStatus,
+  getExtensionStatus,
+  type ExtensionStatus,
+} from "./status.js";
 
 export interface ToolDef {
   name: string;
   description: string;
-  inputSchema: Record<string, unknown>;
+  inputSchema: InputSchema;
+}
+
+export interface ToolLookupEntry {
+  ext: ExtensionEntry;
+  toolIndex: number;
 }
 
 export interface ServerContext {
   extensions: ExtensionEntry[];
   tools: ToolDef[];
-  lookup: Map<string, { ext: ExtensionEntry; toolIndex: number }>;
+  /**
+   * Keyed by `extension:tool` (grouped dispatch) and by the per-tool MCP
+   * name (`extension__tool`).
+   */
+  lookup: Map<string, ToolLookupEntry>;
+  config: ToolsConfig;
+  /** Credential providers that failed on the last (re)load */
+  credentialFailures: CredentialFailures;
 }
 
-async function loadPreferences(): Promise<
-  Record<string, Record<string, unknown>>
-> {
-  const configPath = join(
-    homedir(),
-    ".config",
-    "raybridge",
-    "preferences.json"
-  );
-  try {
-    return JSON.parse(await readFile(configPath, "utf-8"));
-  } catch {
-    return {};
+/** State that belongs to one MCP session rather than the whole server. */
+export interface SessionOptions {
+  /** OAuth account per extension name, chosen when the session started */
+  accounts?: Record<string, string>;
+}
+
+/** Built-in tool that reports extension auth and readiness status. */
+export const STATUS_TOOL_NAME = "raybridge_status";
+
+/** Separator between extension and tool name in per-tool MCP names. */
+const PER_TOOL_SEPARATOR = "__";
+
+/**
+ * MCP tool name for a single Raycast tool, e.g. `linear__create_issue`.
+ * MCP clients only accept [a-zA-Z0-9_-] and at most 64 characters.
+ */
+export function perToolName(extensionName: string, toolName: string): string {
+  return `${extensionName}${PER_TOOL_SEPARATOR}${toolName}`
+    .replace(/[^a-zA-Z0-9_-]/g, "_")
+    .slice(0, 64);
+}
+
+/**
+ * Per-tool name for a tool whose sanitized name is already taken: the name
+ * with a short hash of the original extension and tool name appended.
+ */
+function disambiguatedToolName(extensionName: string, toolName: string): string {
+  const hash = createHash("sha256")
+    .update(`${extensionName}:${toolName}`)
+    .digest("hex")
+    .slice(0, 8);
+  return `${perToolName(extensionName, toolName).slice(0, 55)}_${hash}`;
+}
+
+function describeParameters(t: ToolEntry): string | undefined {
+  const props = t.inputSchema.properties;
+  if (!props) return undefined;
+  return Object.entries(props)
+    .map(([k, v]) => {
+      const req = t.inputSchema.required?.includes(k)
+        ? " (required)"
+        : "";
+      return `  - ${k}: ${v.type || "string"}${req} — ${v.description || ""}`;
+    })
+    .join("\n");
+}
+
+function confirmationNote(fallback: ConfirmationFallback): string {
+  let note = `⚠️ This tool performs a destructive/important action. Confirm with the user before calling.`;
+  if (fallback === "argument") {
+    note += ` If the client cannot show a confirmation prompt, pass "confirmed": true once the user has agreed.`;
   }
+  return note;
 }
 
-export function buildToolDefs(extensions: ExtensionEntry[]): {
-  tools: ToolDef[];
-  lookup: Map<string, { ext: ExtensionEntry; toolIndex: number }>;
-} {
-  const tools: ToolDef[] = [];
-  const lookup = new Map<string, { ext: ExtensionEntry; toolIndex: number }>();
+/** Appended to the description of no-view commands exposed as tools. */
+const COMMAND_NOTE =
+  "Runs a Raycast command. The result is the view it renders (list items, detail text), the HUD messages and toasts it shows and any text it copies to the clipboard.";
 
-  for (const ext of extensions) {
-    // Build tool catalog with full instructions
-    const toolCatalog = ext.tools
-      .map((t) => {
-        let entry = `### ${t.name}\n${t.description}`;
-        if (t.instructions) {
-          entry += `\n${t.instructions}`;
-        }
-        if (t.confirmation) {
-          entry += `\n⚠️ This tool performs a destructive/important action. Confirm with the user before calling.`;
-        }
-        const props = (t.inputSchema as any)?.properties;
-        if (props) {
-          const paramLines = Object.entries(props)
-            .map(([k, v]: [string, any]) => {
-              const req = (t.inputSchema as any)?.required?.includes(k)
-                ? " (required)"
-                : "";
-              return `  - ${k}: ${v.type || "string"}${req} — ${v.description || ""}`;
-            })
-            .join("\n");
-          entry += `\nParameters:\n${paramLines}`;
-        }
-        return entry;
-      })
-      .join("\n\n");
+/**
+ * Whether the tool takes a raybridge-level `confirmed` argument. Any tool
+ * may, since any tool can call confirmAlert; only tools marked for
+ * confirmation advertise it in their schema.
+ */
+function acceptsConfirmedArgument(t: ToolEntry, fallback: ConfirmationFallback): boolean {
+  return fallback === "argument" && !t.inputSchema.properties?.confirmed;
+}
 
-    let description = `${ext.extensionTitle} extension tools.\n\n${toolCatalog}`;
-    if (ext.aiInstructions) {
-      description += `\n\n---\nExtension instructions:\n${ext.aiInstructions}`;
-    }
+/** Whether the tool expects a raybridge-level `account` argument. */
+function acceptsAccountArgument(t: ToolEntry, accounts: string[]): boolean {
+  return accounts.length > 0 && !t.inputSchema.properties?.account;
+}
 
-    // Build a combined JSON Schema with tool_name enum + input object
-    const toolNameEnum = ext.tools.map((t) => t.name);
+function accountProperty(accounts: string[]): PropertySchema {
+  return {
+    type: "string",
+    enum: accounts,
+    description: "OAuth account to act as. Omit to use the default account",
+  };
+}
 
-    // Build a JSON Schema "oneOf" or keep it simple with tool_name + input
-    const inputSchema: Record<string, unknown> = {
+function buildGroupedToolDef(
+  ext: ExtensionEntry,
+  fallback: ConfirmationFallback,
+  accounts: string[]
+): ToolDef {
+  // Build tool catalog with full instructions
+  const toolCatalog = ext.tools
+    .map((t) => {
+      let entry = `### ${t.name}\n${t.description}`;
+      if (t.instructions) {
+        entry += `\n${t.instructions}`;
+      }
+      if (t.kind === "command") {
+        entry += `\n${COMMAND_NOTE}`;
+      }
+      if (t.confirmation) {
+        entry += `\n${confirmationNote(fallback)}`;
+      }
+      const paramLines = describeParameters(t);
+      if (paramLines) {
+        entry += `\nParameters:\n${paramLines}`;
+      }
+      return entry;
+    })
+    .join("\n\n");
+
+  let description = `${ext.extensionTitle} extension tools.\n\n${toolCatalog}`;
+  if (ext.aiInstructions) {
+    description += `\n\n---\nExtension instructions:\n${ext.aiInstructions}`;
+  }
+
+  // Build a combined JSON Schema with tool_name enum + input object
+  const toolNameEnum = ext.tools.map((t) => t.name);
+
+  // Build a JSON Schema "oneOf" or keep it simple with tool_name + input
+  const inputSchema: InputSchema = {
+    type: "object",
+    properties: {
+      tool_name: {
+        type: "string",
+        enum: toolNameEnum,
+        description: "Which tool to run",
+      },
+      input: {
+        type: "object",
+        description:
+          "Input parameters for the selected tool (see tool descriptions for schema)",
+        additionalProperties: true,
+      },
+    },
+    required: ["tool_name"],
+  };
+  if (accounts.length > 0) {
+    inputSchema.properties!.account = accountProperty(accounts);
+  }
+
+  return { name: ext.extensionName, description, inputSchema };
+}
+
+function buildPerToolDef(
+  ext: ExtensionEntry,
+  t: ToolEntry,
+  name: string,
+  fallback: ConfirmationFallback,
+  accounts: string[]
+): ToolDef {
+  let description = `[${ext.extensionTitle}] ${t.title}\n\n${t.description}`;
+  if (t.instructions) {
+    description += `\n\n${t.instructions}`;
+  }
+  if (t.kind === "command") {
+    description += `\n\n${COMMAND_NOTE}`;
+  }
+  if (t.confirmation) {
+    description += `\n\n${confirmationNote(fallback)}`;
+  }
+  if (ext.aiInstructions) {
+    description += `\n\n---\nExtension instructions:\n${ext.aiInstructions}`;
+  }
+
+  const inputSchema: InputSchema = { type: "object", ...t.inputSchema };
+  if (t.confirmation && acceptsConfirmedArgument(t, fallback)) {
+    inputSchema.properties = {
+      ...inputSchema.properties,
+      confirmed: {
+        type: "boolean",
+        description:
+          "Set to true only after the user explicitly confirmed this action",
+      },
+    };
+  }
+  if (acceptsAccountArgument(t, accounts)) {
+    inputSchema.properties = {
+      ...inputSchema.properties,
+      account: accountProperty(accounts),
+    };
+  }
+
+  return { name, description, inputSchema };
+}
+
+function buildStatusToolDef(): ToolDef {
+  return {
+    name: STATUS_TOOL_NAME,
+    description:
+      "Explain whether Raycast extensions are ready to use: OAuth sign-in state (missing, expired or refreshable tokens), missing required preferences and credential loading errors. Call this when an extension's tool fails or seems unavailable.",
+    inputSchema: {
       type: "object",
       properties: {
-        tool_name: {
+        extension: {
           type: "string",
-          enum: toolNameEnum,
-          description: "Which tool to run",
-        },
-        input: {
-          type: "object",
-          description:
-            "Input parameters for the selected tool (see tool descriptions for schema)",
-          additionalProperties: true,
+          description: "Extension name. Omit to report every extension",
         },
       },
-      required: ["tool_name"],
-    };
+    },
+  };
+}
 
-    tools.push({
-      name: ext.extensionName,
-      description,
-      inputSchema,
-    });
+/** Auth and readiness status of the context's extensions. */
+export function getExtensionStatuses(ctx: ServerContext): Promise<ExtensionStatus[]> {
+  return Promise.all(
+    ctx.extensions.map((ext) =>
+      getExtensionStatus(ext, {
+        preferences: getExtensionPreferences(ext.extensionName),
+        tokens: getExtensionTokens(ext.extensionName),
+        failures: ctx.credentialFailures,
+        config: ctx.config,
+      })
+    )
+  );
+}
+
+async function statusToolText(ctx: ServerContext, extension?: string): Promise<string> {
+  let statuses = await getExtensionStatuses(ctx);
+  if (extension) {
+    statuses = statuses.filter((s) => s.extension === extension);
+    if (statuses.length === 0) {
+      return `${extension} is not available: it is not installed, has no AI tools, or is disabled in ~/.config/raybridge/tools.json. Available: ${ctx.extensions.map((e) => e.extensionName).join(", ")}`;
+    }
+  }
+  if (statuses.length === 0) return "No extensions are enabled.";
+  return statuses.map(formatExtensionStatus).join("\n\n");
+}
+
+export function buildToolDefs(
+  extensions: ExtensionEntry[],
+  config: ToolsConfig
+): {
+  tools: ToolDef[];
+  lookup: Map<string, ToolLookupEntry>;
+} {
+  const tools: ToolDef[] = [];
+  const lookup = new Map<string, ToolLookupEntry>();
+  // Per-tool name -> `extension/tool` it was given to
+  const owners = new Map<string, string>();
+
+  for (const ext of extensions) {
+    const perTool = getExposureMode(config, ext.extensionName) === "per-tool";
+    const fallback = getConfirmationFallback(config, ext.extensionName);
+    const { accounts } = getAccountConfig(config, ext.extensionName);
+
+    if (!perTool) {
+      tools.push(buildGroupedToolDef(ext, fallback, accounts));
+    }
 
     for (let i = 0; i < ext.tools.length; i++) {
-      lookup.set(`${ext.extensionName}:${ext.tools[i].name}`, {
-        ext,
-        toolIndex: i,
-      });
+      const entry = { ext, toolIndex: i };
+      const toolName = ext.tools[i].name;
+      const owner = `${ext.extensionName}/${toolName}`;
+      let name = perToolName(ext.extensionName, toolName);
+      const taken = owners.get(name);
+      if (taken !== undefined) {
+        const collided = name;
+        name = disambiguatedToolName(ext.extensionName, toolName);
+        console.error(
+          `raybridge: Tool name ${collided} of ${owner} is already used by ${taken}; exposing it as ${name}`
+        );
+      }
+      owners.set(name, owner);
+      // Both naming styles always resolve, so clients holding a stale
+      // tool list keep working after the exposure mode is switched
+      lookup.set(`${ext.extensionName}:${toolName}`, entry);
+      lookup.set(name, entry);
+      if (perTool) {
+        tools.push(buildPerToolDef(ext, ext.tools[i], name, fallback, accounts));
+      }
     }
   }
+  tools.push(buildStatusToolDef());
 
   return { tools, lookup };
 }
 
-export function createMcpServer(ctx: ServerContext): Server {
+/**
+ * Progress callback that emits MCP progress notifications, or undefined
+ * when the client did not ask for progress.
+ */
+function createProgressReporter(
+  progressToken: string | number | undefined,
+  extra: Pick<RequestHandlerExtra<ServerRequest, ServerNotification>, "sendNotification">
+): ((message: string) => void) | undefined {
+  if (progressToken === undefined) return undefined;
+  let progress = 0;
+  return (message) => {
+    progress++;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, message },
+      })
+      .catch(() => {
+        // Client may have disconnected; progress is best-effort
+      });
+  };
+}
+
+function formatViolations(
+  extName: string,
+  tool: ToolEntry,
+  violations: SchemaViolation[]
+): string {
+  const lines = violations.map((v) => `  - ${v.path}: ${v.message}`);
+  return `Invalid input for ${extName}/${tool.name}:\n${lines.join("\n")}\n\nExpected input schema:\n${JSON.stringify(tool.inputSchema, null, 2)}`;
+}
+
+export function createMcpServer(
+  ctx: ServerContext,
+  session: SessionOptions = {}
+): Server {
   // Note: handlers reference ctx directly to support dynamic reloading
   const server = new Server(
     { name: "raycast-tools", version: "1.0.0" },
@@ -131,68 +394,179 @@ export function createMcpServer(ctx: ServerContext): Server {
     tools: ctx.tools,
   }));
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const extName = request.params.name;
-    const args = (request.params.arguments || {}) as {
-      tool_name?: string;
-      input?: Record<string, unknown>;
-    };
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const name = request.params.name;
 
-    if (!args.tool_name) {
+    if (name === STATUS_TOOL_NAME) {
+      const { extension } = (request.params.arguments || {}) as { extension?: string };
+      return {
+        content: [{ type: "text" as const, text: await statusToolText(ctx, extension) }],
+      };
+    }
+    let entry = ctx.lookup.get(name);
+    let input: Record<string, unknown>;
+    let account: string | undefined;
+
+    if (entry) {
+      // Per-tool exposure: arguments are the tool input itself
+      input = (request.params.arguments || {}) as Record<string, unknown>;
+    } else {
+      // Grouped exposure: extension name + tool_name + input
+      const args = (request.params.arguments || {}) as {
+        tool_name?: string;
+        input?: Record<string, unknown>;
+        account?: string;
+      };
+
+      if (!args.tool_name) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Missing required parameter "tool_name". Available extensions: ${ctx.extensions.map((e) => e.extensionName).join(", ")}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      entry = ctx.lookup.get(`${name}:${args.tool_name}`);
+      if (!entry) {
+        // Find the extension to list available tools
+        const ext = ctx.extensions.find((e) => e.extensionName === name);
+        const available = ext
+          ? ext.tools.map((t) => t.name).join(", ")
+          : `Unknown extension "${name}"`;
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Unknown tool "${args.tool_name}". Available: ${available}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      input = args.input || {};
+      account = args.account;
+    }
+
+    const tool = entry.ext.tools[entry.toolIndex];
+    const extName = entry.ext.extensionName;
+    const fallback = getConfirmationFallback(ctx.config, extName);
+    const accountConfig = getAccountConfig(ctx.config, extName);
+
+    // OAuth account: chosen per call, then per session, then the configured default
+    if (acceptsAccountArgument(tool, accountConfig.accounts) && "account" in input) {
+      const { account: chosen, ...rest } = input;
+      account = typeof chosen === "string" ? chosen : undefined;
+      input = rest;
+    }
+    if (
+      account !== undefined &&
+      accountConfig.accounts.length > 0 &&
+      !accountConfig.accounts.includes(account)
+    ) {
       return {
         content: [
           {
             type: "text" as const,
-            text: `Missing required parameter "tool_name". Available extensions: ${ctx.extensions.map((e) => e.extensionName).join(", ")}`,
+            text: `Unknown account "${account}" for ${extName}. Available: ${accountConfig.accounts.join(", ")}`,
           },
         ],
         isError: true,
       };
     }
+    account ??= session.accounts?.[extName] ?? accountConfig.account;
+
+    // `confirmed` belongs to raybridge, not the tool, unless the tool declares it
+    let confirmedByArgument = false;
+    if (acceptsConfirmedArgument(tool, fallback) && "confirmed" in input) {
+      const { confirmed, ...rest } = input;
+      confirmedByArgument = confirmed === true;
+      input = rest;
+    }
 
-    const entry = ctx.lookup.get(`${extName}:${args.tool_name}`);
-    if (!entry) {
-      // Find the extension to list available tools
-      const ext = ctx.extensions.find((e) => e.extensionName === extName);
-      const available = ext
-        ? ext.tools.map((t) => t.name).join(", ")
-        : `Unknown extension "${extName}"`;
+    const validation = validateInput(tool.inputSchema, input);
+    if (!validation.valid) {
+      console.error(
+        `raybridge: [INVALID] ${extName}/${tool.name} violations=${validation.violations.length}`
+      );
       return {
         content: [
           {
             type: "text" as const,
-            text: `Unknown tool "${args.tool_name}". Available: ${available}`,
+            text: formatViolations(extName, tool, validation.violations),
           },
         ],
         isError: true,
       };
     }
+    input = validation.value;
+    const inputSummary = JSON.stringify(input).slice(0, 200);
+
+    const client = createClientBridge(server, extra, {
+      confirmationFallback: fallback,
+      confirmedByArgument,
+    });
+
+    if (tool.confirmation) {
+      const { confirmed, reason } = await client.confirm!({
+        title: `Allow ${entry.ext.extensionTitle} to run "${tool.title}"?`,
+        message: `Input: ${inputSummary}`,
+      });
+      if (!confirmed) {
+        console.error(`raybridge: [DENIED] ${extName}/${tool.name}`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${extName}/${tool.name} was not run. ${reason ?? ""}`.trim(),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
 
-    const tool = entry.ext.tools[entry.toolIndex];
-    const inputSummary = JSON.stringify(args.input || {}).slice(0, 200);
     const startTime = Date.now();
 
-    console.error(`raybridge: [CALL] ${extName}/${args.tool_name} input=${inputSummary}`);
+    console.error(`raybridge: [CALL] ${extName}/${tool.name} input=${inputSummary}`);
 
     try {
       const result = await executeTool(
         tool.jsPath,
-        args.input || {},
+        input,
         entry.ext.extensionName,
-        entry.ext.extensionDir
+        entry.ext.extensionDir,
+        {
+          ...getExecutionConfig(ctx.config, extName),
+          signal: extra.signal,
+          onProgress: createProgressReporter(request.params._meta?.progressToken, extra),
+          client,
+          account,
+          declaredPreferences: declaredPreferencesFor(entry.ext, tool),
+          command:
+            tool.kind === "command"
+              ? { name: tool.name, mode: tool.commandMode!, viewFormat: getViewFormat(ctx.config, extName) }
+              : undefined,
+          strictShims: strictShimsEnabled(ctx.config, extName),
+        }
       );
       const duration = Date.now() - startTime;
       const resultPreview = result.slice(0, 100).replace(/\n/g, "\\n");
-      console.error(`raybridge: [OK] ${extName}/${args.tool_name} (${duration}ms) result=${resultPreview}...`);
+      console.error(`raybridge: [OK] ${extName}/${tool.name} (${duration}ms) result=${resultPreview}...`);
       return { content: [{ type: "text" as const, text: result }] };
     } catch (err: any) {
       const duration = Date.now() - startTime;
       const msg = err.message || String(err);
-      console.error(`raybridge: [ERR] ${extName}/${args.tool_name} (${duration}ms) error=${msg.slice(0, 150)}`);
+      console.error(`raybridge: [ERR] ${extName}/${tool.name} (${duration}ms) error=${msg.slice(0, 150)}`);
       const isAuthError =
+        !(err instanceof MissingPreferencesError) &&
+        !(err instanceof UnsupportedRaycastApiError) &&
         /token|oauth|unauthorized|403|401|invalid_grant|Missing required parameter: code/i.test(msg);
       const text = isAuthError
-        ? `OAuth error for ${extName}/${args.tool_name}: ${msg}\n\nThis extension requires OAuth authentication managed by Raycast. The tokens are stored in Raycast's encrypted database and cannot be accessed externally.\n\nWorkaround: If this extension supports personal access tokens, add them to ~/.config/raybridge/preferences.json:\n{\n  "${extName}": { "personalAccessToken": "your-token-here" }\n}`
+        ? `OAuth error for ${extName}/${tool.name}: ${msg}\n\nTo authorize it from a terminal, run:\n  raybridge auth ${extName} ${tool.name}${account ? ` --account ${account}` : ""}\n\nAlternatively, if this extension supports personal access tokens, store one in raybridge's encrypted secret store:\n  raybridge secret set ${extName}-token\nand reference it from ~/.config/raybridge/preferences.json:\n{\n  "${extName}": { "personalAccessToken": "\${secret:${extName}-token}" }\n}`
         : `Error: ${msg}`;
       return {
         content: [{ type: "text" as const, text }],
@@ -229,42 +603,53 @@ function parseArgs(): { http: boolean; port: number; host: string } {
   return { http, port, host };
 }
 
-export async function loadServerContext(): Promise<ServerContext> {
-  const [localExtensions, manualPrefs, toolsConfig] = await Promise.all([
-    discoverExtensions(),
-    loadPreferences(),
-    loadToolsConfig(),
-  ]);
-
-  // Load preferences from Raycast's encrypted database and merge with manual prefs
-  // Manual prefs override Raycast prefs
-  let mergedPrefs = { ...manualPrefs };
-  try {
-    const raycastPrefs = loadRaycastPreferences();
-    for (const [extName, extPrefs] of Object.entries(raycastPrefs)) {
-      mergedPrefs[extName] = { ...extPrefs, ...(manualPrefs[extName] || {}) };
-    }
-    const prefsCount = Object.keys(raycastPrefs).length;
-    if (prefsCount > 0) {
-      console.error(
-        `raybridge: Loaded preferences for ${prefsCount} extensions from Raycast DB`
-      );
-    }
-  } catch (err: any) {
-    console.error(`raybridge: Could not load Raycast preferences: ${err.message}`);
+/**
+ * Load preferences and OAuth tokens from the credential providers and hand
+ * them to the shims. Manual prefs from preferences.json override provider
+ * prefs.
+ */
+async function applyCredentials(
+  extensions: ExtensionEntry[],
+  manualPrefs: Record<string, Record<string, unknown>>,
+  config: ToolsConfig,
+  verb: "Loaded" | "Reloaded"
+): Promise<CredentialFailures> {
+  const names = extensions.map((e) => e.extensionName);
+  const credentials = await loadCredentials(names, config);
+
+  const mergedPrefs = { ...manualPrefs };
+  for (const [extName, extPrefs] of Object.entries(credentials.preferences)) {
+    mergedPrefs[extName] = { ...extPrefs, ...(manualPrefs[extName] || {}) };
   }
   setPreferences(mergedPrefs);
+  setRaycastTokens(credentials.tokens);
+
+  console.error(
+    `raybridge: ${verb} credentials: preferences for ${Object.keys(credentials.preferences).length} extensions, OAuth tokens for ${credentials.tokens.size} extensions`
+  );
+  return credentials.failures;
+}
 
-  // Load OAuth tokens from Raycast's encrypted database
-  try {
-    const raycastTokens = loadRaycastTokens();
-    setRaycastTokens(raycastTokens);
-    console.error(
-      `raybridge: Loaded OAuth tokens for ${raycastTokens.size} extensions`
-    );
-  } catch (err: any) {
-    console.error(`raybridge: Could not load OAuth tokens: ${err.message}`);
+/** Log why each extension that isn't ready isn't. */
+async function logExtensionStatuses(ctx: ServerContext): Promise<void> {
+  for (const status of await getExtensionStatuses(ctx)) {
+    if (!status.ready) {
+      console.error(`raybridge: ${status.extension} is not ready: ${status.problems.join("; ")}`);
+    }
   }
+}
+
+export async function loadServerContext(): Promise<ServerContext> {
+  const toolsConfig = await loadToolsConfig();
+  const localExtensions = await discoverExtensions(toolsConfig);
+  const manualPrefs = await loadPreferences(localExtensions);
+
+  const credentialFailures = await applyCredentials(
+    localExtensions,
+    manualPrefs,
+    toolsConfig,
+    "Loaded"
+  );
 
   const extensions = filterExtensions(localExtensions, toolsConfig);
 
@@ -273,73 +658,53 @@ export async function loadServerContext(): Promise<ServerContext> {
     console.error(`raybridge: ${disabled} extension(s) disabled by config`);
   }
 
-  const { tools, lookup } = buildToolDefs(extensions);
+  const { tools, lookup } = buildToolDefs(extensions, toolsConfig);
 
   const toolCount = extensions.reduce((n, e) => n + e.tools.length, 0);
   console.error(
     `raybridge: Registered ${extensions.length} extensions (${toolCount} tools total)`
   );
 
-  return { extensions, tools, lookup };
+  const ctx = { extensions, tools, lookup, config: toolsConfig, credentialFailures };
+  await logExtensionStatuses(ctx);
+  return ctx;
 }
 
 /**
  * Reload tools, preferences, OAuth tokens, and update the context in place.
- * Returns true if tools changed.
+ * Returns true if the tool list changed and clients should be notified.
  */
 export async function reloadServerContext(ctx: ServerContext): Promise<boolean> {
-  const [localExtensions, manualPrefs, toolsConfig] = await Promise.all([
-    discoverExtensions(),
-    loadPreferences(),
-    loadToolsConfig(),
-  ]);
-
-  // Reload preferences from Raycast DB
-  let mergedPrefs = { ...manualPrefs };
-  try {
-    const raycastPrefs = loadRaycastPreferences();
-    for (const [extName, extPrefs] of Object.entries(raycastPrefs)) {
-      mergedPrefs[extName] = { ...extPrefs, ...(manualPrefs[extName] || {}) };
-    }
-    const prefsCount = Object.keys(raycastPrefs).length;
-    if (prefsCount > 0) {
-      console.error(
-        `raybridge: Reloaded preferences for ${prefsCount} extensions`
-      );
-    }
-  } catch (err: any) {
-    console.error(`raybridge: Could not reload Raycast preferences: ${err.message}`);
-  }
-  setPreferences(mergedPrefs);
-
-  // Reload OAuth tokens from Raycast DB
-  try {
-    const raycastTokens = loadRaycastTokens();
-    setRaycastTokens(raycastTokens);
-    console.error(
-      `raybridge: Reloaded OAuth tokens for ${raycastTokens.size} extensions`
-    );
-  } catch (err: any) {
-    console.error(`raybridge: Could not reload OAuth tokens: ${err.message}`);
-  }
+  const toolsConfig = await loadToolsConfig();
+  const localExtensions = await discoverExtensions(toolsConfig);
+  const manualPrefs = await loadPreferences(localExtensions);
+
+  ctx.credentialFailures = await applyCredentials(
+    localExtensions,
+    manualPrefs,
+    toolsConfig,
+    "Reloaded"
+  );
 
   const extensions = filterExtensions(localExtensions, toolsConfig);
-  const { tools, lookup } = buildToolDefs(extensions);
+  const { tools, lookup } = buildToolDefs(extensions, toolsConfig);
 
   // Check if tools changed
   const oldToolNames = ctx.tools.map((t) => t.name).sort().join(",");
   const newToolNames = tools.map((t) => t.name).sort().join(",");
 
-  if (oldToolNames === newToolNames) {
-    // No change in tool list (but prefs/tokens still reloaded)
-    return false;
-  }
-
-  // Update context in place
+  // Always update the context in place: descriptions, schemas, tool paths
+  // and settings can change while the tool names stay the same
+  ctx.config = toolsConfig;
   ctx.extensions = extensions;
   ctx.tools = tools;
   ctx.lookup = lookup;
 
+  if (oldToolNames === newToolNames) {
+    // Same tool list, so there is nothing to notify clients about
+    return false;
+  }
+
   const toolCount = extensions.reduce((n, e) => n + e.tools.length, 0);
   console.error(
     `raybridge: Reloaded ${extensions.length} extensions (${toolCount} tools total)`
@@ -348,6 +713,11 @@ export async function reloadServerContext(ctx: ServerContext): Promise<boolean>
   return true;
 }
 
+/** Directories the served tool and command bundles are built into. */
+function bundleDirs(ctx: ServerContext): string[] {
+  return [...new Set(ctx.extensions.flatMap((e) => e.tools.map((t) => dirname(t.jsPath))))];
+}
+
 async function main() {
   const { http, port, host } = parseArgs();
   const apiKey = process.env.MCP_API_KEY;
@@ -363,6 +733,8 @@ async function main() {
     startExtensionWatcher({
       onReload: () => reloadServerContext(ctx),
       getServers: () => servers,
+      getRoots: () => getExtensionRoots(ctx.config),
+      getBundleDirs: () => bundleDirs(ctx),
     });
 
     await startHttpServer({
@@ -385,6 +757,8 @@ async function main() {
     startExtensionWatcher({
       onReload: () => reloadServerContext(ctx),
       getServers: () => servers,
+      getRoots: () => getExtensionRoots(ctx.config),
+      getBundleDirs: () => bundleDirs(ctx),
     });
 
     const transport = new StdioServerTransport();
@@ -392,7 +766,10 @@ async function main() {
   }
 }
 
-main().catch((err) => {
-  console.error("Fatal:", err);
-  process.exit(1);
-});
+// Only when run as the server, so tests can import createMcpServer
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error("Fatal:", err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,210 @@
+import { fork } from "node:child_process";
+import { fileURLToPath } from "node:url";
+import type { TokenSet } from "./auth.js";
+import {
+  getExtensionPreferences,
+  getExtensionTokens,
+  UnsupportedRaycastApiError,
+} from "./shims.js";
+import type { ClientBridge } from "./context.js";
+import type { PreferenceEntry } from "./discovery.js";
+import type { CommandRun } from "./loader.js";
+
+const WORKER_PATH = fileURLToPath(new URL("./worker.ts", import.meta.url));
+
+/** Parent -> worker: run one tool call. */
+export interface WorkerRunMessage {
+  type: "run";
+  jsPath: string;
+  input: Record<string, unknown>;
+  extensionName: string;
+  extensionDir: string;
+  preferences: Record<string, unknown>;
+  declaredPreferences: PreferenceEntry[];
+  /** Command to run the bundle as, instead of a tool */
+  command?: CommandRun;
+  strictShims: boolean;
+  tokens: TokenSet[];
+  account?: string;
+  memoryLimitMb: number;
+  /** ClientBridge methods the worker may call back through the parent */
+  clientMethods: Array<keyof ClientBridge>;
+}
+
+/** Parent -> worker: answer to a client bridge request. */
+export interface WorkerResponseMessage {
+  type: "response";
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export type ParentMessage = WorkerRunMessage | WorkerResponseMessage;
+
+/** Worker -> parent: progress, client bridge requests and the outcome. */
+export type WorkerMessage =
+  | { type: "progress"; message: string }
+  | { type: "request"; id: number; method: keyof ClientBridge; args: unknown[] }
+  | { type: "result"; result: string }
+  | {
+      type: "error";
+      message: string;
+      /** Set when the tool invoked an auto-stub in strict mode */
+      unsupportedApi?: { module: string; api: string };
+    };
+
+export interface IsolatedRunOptions {
+  timeoutMs: number;
+  memoryLimitMb: number;
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+  client?: ClientBridge;
+  account?: string;
+  declaredPreferences?: PreferenceEntry[];
+  command?: CommandRun;
+  strictShims?: boolean;
+}
+
+/**
+ * Run a tool in a fresh child process with the shims installed.
+ *
+ * The child is killed on timeout or when `signal` aborts. A child that
+ * exits without reporting a result (process.exit, uncaught exception,
+ * memory cap) rejects with a descriptive error instead of affecting the
+ * server process.
+ */
+export function executeToolIsolated(
+  jsPath: string,
+  input: Record<string, unknown>,
+  extensionName: string,
+  extensionDir: string,
+  options: IsolatedRunOptions
+): Promise<string> {
+  const {
+    timeoutMs,
+    memoryLimitMb,
+    signal,
+    onProgress,
+    client,
+    account,
+    declaredPreferences = [],
+    command,
+    strictShims = false,
+  } = options;
+
+  if (signal?.aborted) {
+    return Promise.reject(new Error("Tool call was cancelled"));
+  }
+
+  return new Promise((resolve, reject) => {
+    // Node honours the heap flag; under Bun the worker polls its own RSS
+    const execArgv =
+      typeof Bun === "undefined" && memoryLimitMb > 0
+        ? [`--max-old-space-size=${memoryLimitMb}`]
+        : [];
+
+    const child = fork(WORKER_PATH, [], {
+      execPath: process.execPath,
+      execArgv,
+      // stdout is the MCP channel in stdio mode, so tool output goes to stderr
+      stdio: ["ignore", "pipe", "inherit", "ipc"],
+    });
+    child.stdout?.pipe(process.stderr);
+
+    let settled = false;
+    // Bridge requests made by the worker are cancelled once the call ends
+    const bridgeAbort = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (err: Error | null, result?: string) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      bridgeAbort.abort();
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGKILL");
+      }
+      if (err) reject(err);
+      else resolve(result!);
+    };
+
+    const onAbort = () => finish(new Error("Tool call was cancelled"));
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () => finish(new Error(`Tool timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    }
+
+    const respond = (response: WorkerResponseMessage) => {
+      if (!settled && child.connected) child.send(response);
+    };
+
+    const handleRequest = async (id: number, method: keyof ClientBridge, args: unknown[]) => {
+      const fn = client?.[method] as ((...a: unknown[]) => Promise<unknown>) | undefined;
+      if (!fn) {
+        respond({ type: "response", id, error: `Client bridge method "${method}" is unavailable` });
+        return;
+      }
+      // Abort signals cannot cross the process boundary, so option objects
+      // get the parent-side signal for this call instead
+      const localArgs = args.map((a) =>
+        a && typeof a === "object" && !Array.isArray(a)
+          ? { ...a, signal: bridgeAbort.signal }
+          : a
+      );
+      try {
+        const result = await fn.apply(client, localArgs);
+        respond({ type: "response", id, result });
+      } catch (err: any) {
+        respond({ type: "response", id, error: err?.message || String(err) });
+      }
+    };
+
+    child.on("message", (msg: WorkerMessage) => {
+      if (msg.type === "progress") onProgress?.(msg.message);
+      else if (msg.type === "request") handleRequest(msg.id, msg.method, msg.args);
+      else if (msg.type === "result") finish(null, msg.result);
+      else if (msg.type === "error") {
+        finish(
+          msg.unsupportedApi
+            ? new UnsupportedRaycastApiError(msg.unsupportedApi.module, msg.unsupportedApi.api)
+            : new Error(msg.message)
+        );
+      }
+    });
+
+    child.on("error", (err) => {
+      finish(new Error(`Tool process failed: ${err.message}`));
+    });
+
+    child.on("exit", (code, sig) => {
+      const reason = sig ? `signal ${sig}` : `code ${code}`;
+      finish(new Error(`Tool process exited unexpectedly (${reason})`));
+    });
+
+    const message: WorkerRunMessage = {
+      type: "run",
+      jsPath,
+      input,
+      extensionName,
+      extensionDir,
+      preferences: getExtensionPreferences(extensionName),
+      declaredPreferences,
+      command,
+      strictShims,
+      tokens: getExtensionTokens(extensionName),
+      account,
+      memoryLimitMb,
+      clientMethods: client
+        ? (Object.keys(client) as Array<keyof ClientBridge>).filter(
+            (m) => typeof client[m] === "function"
+          )
+        : [],
+    };
+    child.send(message);
+  });
+}
@@ -0,0 +1,95 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { ToolsConfig } from "./config.js";
+
+/**
+ * Configuration from ray-ai-tools, raybridge's former name, kept in
+ * ~/.config/ray-ai-tools with the same file layout. It is read alongside
+ * raybridge's own files until `raybridge migrate` moves it over; where both
+ * define something, raybridge's value wins and a warning names the
+ * conflict (never the values).
+ */
+
+export type PreferencesFile = Record<string, Record<string, unknown>>;
+
+const LEGACY_DIR = join(homedir(), ".config", "ray-ai-tools");
+
+/** Conflicts already reported, so reloads don't repeat them */
+const warned = new Set<string>();
+
+function warnOnce(message: string): void {
+  if (warned.has(message)) return;
+  warned.add(message);
+  console.error(`raybridge: ${message}`);
+}
+
+export function getLegacyConfigDir(): string {
+  return LEGACY_DIR;
+}
+
+async function readLegacyJson<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(join(LEGACY_DIR, file), "utf-8"));
+  } catch {
+    return undefined;
+  }
+}
+
+export function readLegacyToolsConfig(): Promise<ToolsConfig | undefined> {
+  return readLegacyJson<ToolsConfig>("tools.json");
+}
+
+export function readLegacyPreferences(): Promise<PreferencesFile | undefined> {
+  return readLegacyJson<PreferencesFile>("preferences.json");
+}
+
+/** Merge legacy preferences under raybridge's, key by key. */
+export function mergeLegacyPreferences(
+  current: PreferencesFile,
+  legacy: PreferencesFile
+): PreferencesFile {
+  const merged: PreferencesFile = {};
+  for (const [extName, legacyPrefs] of Object.entries(legacy)) {
+    merged[extName] = { ...legacyPrefs };
+  }
+  for (const [extName, prefs] of Object.entries(current)) {
+    for (const [key, value] of Object.entries(prefs ?? {})) {
+      const legacyValue = legacy[extName]?.[key];
+      if (legacyValue !== undefined && JSON.stringify(legacyValue) !== JSON.stringify(value)) {
+        warnOnce(
+          `Preference ${extName}.${key} differs between raybridge and ray-ai-tools; using raybridge's`
+        );
+      }
+    }
+    merged[extName] = { ...merged[extName], ...prefs };
+  }
+  return merged;
+}
+
+/**
+ * Merge a legacy tools config under raybridge's. Top-level settings and
+ * per-extension entries from raybridge replace the legacy ones whole.
+ */
+export function mergeLegacyToolsConfig(
+  current: ToolsConfig | undefined,
+  legacy: ToolsConfig
+): ToolsConfig {
+  if (!current) {
+    return { ...legacy, mode: legacy.mode ?? "blocklist", extensions: { ...legacy.extensions } };
+  }
+  if (legacy.mode && legacy.mode !== current.mode) {
+    warnOnce(
+      `tools.json mode is "${current.mode}" in raybridge and "${legacy.mode}" in ray-ai-tools; using "${current.mode}"`
+    );
+  }
+  const extensions = { ...legacy.extensions };
+  for (const [name, ext] of Object.entries(current.extensions ?? {})) {
+    const legacyExt = legacy.extensions?.[name];
+    if (legacyExt && JSON.stringify(legacyExt) !== JSON.stringify(ext)) {
+      warnOnce(`tools.json settings for ${name} differ in ray-ai-tools; using raybridge's`);
+    }
+    extensions[name] = ext;
+  }
+  return { ...legacy, ...current, extensions };
+}
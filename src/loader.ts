@@ -1,17 +1,178 @@
 import { createRequire } from "node:module";
-import { installShims, setCurrentExtension } from "./shims.js";
+import { basename } from "node:path";
+import { getExtensionPreferences, installShims } from "./shims.js";
+import {
+  runInExtensionContext,
+  type ClientBridge,
+  type ExtensionContext,
+} from "./context.js";
+import { executeToolIsolated } from "./isolation.js";
+import type { IsolationMode } from "./config.js";
+import type { CommandMode, PreferenceEntry } from "./discovery.js";
+import { MissingPreferencesError, missingPreferences } from "./preferences.js";
+import { createElement, renderView } from "./react.js";
+import { formatCommandOutput, formatView, type ViewFormat } from "./views.js";
+import { finishStubTrace } from "./coverage.js";
 
 const require = createRequire(import.meta.url);
 
+/** How to run a bundle as a Raycast command rather than a tool. */
+export interface CommandRun {
+  name: string;
+  mode: CommandMode;
+  /** Output format of a view command (default markdown) */
+  viewFormat?: ViewFormat;
+}
+
+export interface ExecuteOptions {
+  /** Run in the server process (default) or in a child process */
+  isolation?: IsolationMode;
+  /** Wall-clock limit in milliseconds; unset or 0 disables */
+  timeoutMs?: number;
+  /** Memory cap in megabytes (subprocess isolation only) */
+  memoryLimitMb?: number;
+  /**
+   * Aborting kills an isolated call; in-process calls see it through their
+   * fetch calls and are otherwise abandoned
+   */
+  signal?: AbortSignal;
+  /** Receives progress messages from the tool's toasts */
+  onProgress?: (message: string) => void;
+  /** Requests back to the MCP client (sampling, ...) */
+  client?: ClientBridge;
+  /** OAuth account to select for the call */
+  account?: string;
+  /** Manifest preferences for the call; required ones must have a value */
+  declaredPreferences?: PreferenceEntry[];
+  /**
+   * Run the bundle as a command: `input` is its arguments and the result
+   * is the rendered view or what it showed or copied
+   */
+  command?: CommandRun;
+  /** Fail the call if it invokes an auto-stubbed Raycast API */
+  strictShims?: boolean;
+}
+
 export async function executeTool(
   jsPath: string,
   input: Record<string, unknown>,
   extensionName: string,
-  extensionDir: string
+  extensionDir: string,
+  options: ExecuteOptions = {}
+): Promise<string> {
+  const {
+    isolation = "in-process",
+    timeoutMs = 0,
+    memoryLimitMb = 0,
+    signal,
+    onProgress,
+    client,
+    account,
+    declaredPreferences = [],
+    command,
+    strictShims = false,
+  } = options;
+
+  const missing = missingPreferences(declaredPreferences, getExtensionPreferences(extensionName));
+  if (missing.length > 0) {
+    throw new MissingPreferencesError(extensionName, missing);
+  }
+
+  if (isolation === "subprocess") {
+    return executeToolIsolated(jsPath, input, extensionName, extensionDir, {
+      timeoutMs,
+      memoryLimitMb,
+      signal,
+      onProgress,
+      client,
+      account,
+      declaredPreferences,
+      command,
+      strictShims,
+    });
+  }
+
+  return withDeadline(
+    runInProcess(jsPath, input, {
+      extensionName,
+      extensionDir,
+      signal,
+      onProgress,
+      client,
+      account,
+      declaredPreferences,
+      command: command?.name,
+      commandMode: command?.mode,
+      output: command ? [] : undefined,
+      stubAccesses: new Map(),
+      strictShims,
+    }, command),
+    timeoutMs,
+    signal
+  );
+}
+
+/**
+ * Reject when the deadline passes or the signal aborts. In-process tool code
+ * cannot be stopped, so it keeps running in the background and its result
+ * is discarded.
+ */
+function withDeadline<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  if (timeoutMs <= 0 && !signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(
+            () => reject(new Error(`Tool timed out after ${timeoutMs}ms`)),
+            timeoutMs
+          )
+        : null;
+    const onAbort = () => reject(new Error("Tool call was cancelled"));
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+async function runInProcess(
+  jsPath: string,
+  input: Record<string, unknown>,
+  context: ExtensionContext,
+  command?: CommandRun
 ): Promise<string> {
   installShims();
-  setCurrentExtension(extensionName, extensionDir);
 
+  // Everything the tool does, including its module top-level code and any
+  // work continued after awaits, resolves shims against this extension
+  try {
+    const result = await runInExtensionContext(context, () =>
+      loadAndRun(jsPath, input, context, command)
+    );
+    // A strict call fails even if the tool caught the error and carried on
+    if (context.unsupportedApi) throw context.unsupportedApi;
+    return result;
+  } finally {
+    // Tool bundles are named after their tool; commands after their command
+    const call = `${context.extensionName}/${command?.name ?? basename(jsPath, ".js")}`;
+    finishStubTrace(call, context.stubAccesses ?? new Map());
+  }
+}
+
+async function loadAndRun(
+  jsPath: string,
+  input: Record<string, unknown>,
+  context: ExtensionContext,
+  command?: CommandRun
+): Promise<string> {
   delete require.cache[jsPath];
 
   let mod: any;
@@ -26,6 +187,16 @@ export async function executeTool(
     throw new Error(`Tool at ${jsPath} does not export a function`);
   }
 
+  if (command && context.output) {
+    const props = { arguments: input, launchType: "userInitiated" };
+    if (command.mode === "view") {
+      const view = await renderView(createElement(fn, props), { signal: context.signal });
+      return formatView(view, command.viewFormat ?? "markdown", context.output);
+    }
+    await fn(props);
+    return formatCommandOutput(context.output);
+  }
+
   const result = await fn(input);
 
   if (typeof result === "string") return result;
@@ -0,0 +1,81 @@
+import { readdir, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { getDataDir } from "./config.js";
+import {
+  readJsonFile,
+  safeFileName,
+  withFileLock,
+  writeJsonFileAtomic,
+} from "./file-store.js";
+
+/** Raycast LocalStorage value types */
+export type StorageValue = string | number | boolean;
+export type StorageValues = Record<string, StorageValue>;
+
+function storageDir(): string {
+  return join(getDataDir(), "local-storage");
+}
+
+function storagePath(extensionName: string): string {
+  return join(storageDir(), `${safeFileName(extensionName)}.json`);
+}
+
+/** Read-modify-write under the extension's file lock. */
+function update(
+  extensionName: string,
+  mutate: (items: StorageValues) => void
+): Promise<void> {
+  const path = storagePath(extensionName);
+  return withFileLock(path, async () => {
+    const items = await readJsonFile<StorageValues>(path, {});
+    mutate(items);
+    await writeJsonFileAtomic(path, items);
+  });
+}
+
+export async function allItems(extensionName: string): Promise<StorageValues> {
+  return readJsonFile<StorageValues>(storagePath(extensionName), {});
+}
+
+export async function getItem(
+  extensionName: string,
+  key: string
+): Promise<StorageValue | undefined> {
+  return (await allItems(extensionName))[key];
+}
+
+export function setItem(
+  extensionName: string,
+  key: string,
+  value: StorageValue
+): Promise<void> {
+  return update(extensionName, (items) => {
+    items[key] = value;
+  });
+}
+
+export function removeItem(extensionName: string, key: string): Promise<void> {
+  return update(extensionName, (items) => {
+    delete items[key];
+  });
+}
+
+export function clearItems(extensionName: string): Promise<void> {
+  const path = storagePath(extensionName);
+  return withFileLock(path, async () => {
+    await unlink(path).catch(() => {});
+  });
+}
+
+/** Extension names that currently have stored items. */
+export async function listStorageExtensions(): Promise<string[]> {
+  try {
+    const files = await readdir(storageDir());
+    return files
+      .filter((f) => f.endsWith(".json") && !f.startsWith("."))
+      .map((f) => f.slice(0, -".json".length))
+      .sort();
+  } catch {
+    return [];
+  }
+}
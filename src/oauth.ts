@@ -0,0 +1,502 @@
+import { createServer, type Server as HttpServer } from "node:http";
+import { createHash, randomBytes } from "node:crypto";
+import type { TokenSet } from "./auth.js";
+import { currentContext } from "./context.js";
+import {
+  loadStoredTokens,
+  loadTokenEndpoint,
+  providerKey,
+  removeStoredTokens,
+  saveStoredTokens,
+  saveTokenEndpoint,
+  type StoredTokenSet,
+  type TokenEndpoint,
+} from "./token-store.js";
+
+/** How long to wait for the browser to hit the loopback redirect */
+const AUTHORIZATION_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * OAuth tokens from the credential providers (Raycast DB, env, vault, ...)
+ * keyed by extension name, in provider precedence order.
+ */
+let raycastTokens = new Map<string, TokenSet[]>();
+
+export function setRaycastTokens(tokens: Map<string, TokenSet[]>) {
+  raycastTokens = tokens;
+}
+
+/** Provider token sets for one extension (used to seed isolated workers). */
+export function getExtensionTokens(extensionName: string): TokenSet[] {
+  return raycastTokens.get(extensionName) || [];
+}
+
+/**
+ * Account label of a token set: the label raybridge stored it under, or
+ * Raycast's token set id.
+ */
+export function accountName(tokens: StoredTokenSet): string {
+  return tokens.account ?? tokens.id ?? "default";
+}
+
+/**
+ * Token sets usable by one PKCEClient, raybridge's own first. Sets from the
+ * credential providers are matched on providerId; if none match (older
+ * Raycast sets have no id), all of the extension's sets are candidates.
+ */
+export function providerTokenSets(
+  extensionName: string,
+  stored: StoredTokenSet[],
+  provider: { providerName?: string; providerId?: string }
+): StoredTokenSet[] {
+  const own = stored.filter(
+    (t) => (t.providerName ?? "") === (provider.providerName ?? "")
+  );
+  const dbSets = raycastTokens.get(extensionName) ?? [];
+  const wanted = provider.providerId ?? provider.providerName;
+  const matching = wanted ? dbSets.filter((t) => t.providerId === wanted) : [];
+  return [...own, ...(matching.length > 0 ? matching : dbSets)];
+}
+
+/**
+ * Token request parameters kept for refreshing. Everything else is either
+ * specific to one request or a secret (client_secret) that must not be
+ * written to disk.
+ */
+const REFRESH_PARAMS = new Set(["client_id"]);
+
+/** Token endpoints configured by the extension (OAuthService), per client */
+const configuredEndpoints = new WeakMap<PKCEClient, TokenEndpoint>();
+
+/** Refresh requests raybridge makes itself, which are not recorded */
+const ownRequests = new WeakSet<RequestInit>();
+
+/** Refreshes in flight, keyed by extension and provider */
+const refreshes = new Map<string, Promise<StoredTokenSet>>();
+
+function base64url(buf: Buffer): string {
+  return buf.toString("base64url");
+}
+
+/**
+ * Temporary HTTP listener on 127.0.0.1 that receives the authorization
+ * redirect. Uses RAYBRIDGE_OAUTH_PORT when set (for providers that require
+ * a registered redirect URI), otherwise an ephemeral port.
+ */
+class LoopbackRedirect {
+  readonly redirectURI: string;
+  private code: Promise<string>;
+  private timer!: ReturnType<typeof setTimeout>;
+
+  private constructor(private server: HttpServer, port: number, state: string) {
+    this.redirectURI = `http://127.0.0.1:${port}/callback`;
+    this.code = new Promise<string>((resolve, reject) => {
+      this.timer = setTimeout(
+        () => reject(new Error("Timed out waiting for OAuth authorization")),
+        AUTHORIZATION_TIMEOUT
+      );
+      server.on("request", (req, res) => {
+        const url = new URL(req.url || "/", this.redirectURI);
+        if (url.pathname !== "/callback") {
+          res.writeHead(404).end();
+          return;
+        }
+        const error = url.searchParams.get("error");
+        const code = url.searchParams.get("code");
+        if (url.searchParams.get("state") !== state) {
+          res.writeHead(400).end("Invalid state");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "text/html" });
+        if (error || !code) {
+          res.end("<p>Authorization failed. You can close this window.</p>");
+          reject(new Error(`OAuth authorization failed: ${error || "no code returned"}`));
+        } else {
+          res.end("<p>Authorization complete. You can close this window and return to your MCP client.</p>");
+          resolve(code);
+        }
+      });
+    });
+    this.code
+      .finally(() => {
+        this.close();
+        pendingRedirects.delete(state);
+      })
+      .catch(() => {});
+  }
+
+  static async start(state: string): Promise<LoopbackRedirect> {
+    const server = createServer();
+    const port = parseInt(process.env.RAYBRIDGE_OAUTH_PORT || "0", 10);
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", () => resolve());
+    });
+    const address = server.address();
+    const actualPort = typeof address === "object" && address ? address.port : port;
+    return new LoopbackRedirect(server, actualPort, state);
+  }
+
+  waitForCode(signal?: AbortSignal): Promise<string> {
+    if (!signal) return this.code;
+    return Promise.race([
+      this.code,
+      new Promise<string>((_, reject) => {
+        const onAbort = () => reject(new Error("OAuth authorization was cancelled"));
+        if (signal.aborted) onAbort();
+        signal.addEventListener("abort", onAbort, { once: true });
+      }),
+    ]);
+  }
+
+  close() {
+    clearTimeout(this.timer);
+    this.server.close();
+  }
+}
+
+/** Redirects awaiting authorization, keyed by OAuth state */
+const pendingRedirects = new Map<string, LoopbackRedirect>();
+
+function parseTokenRequestBody(
+  body: unknown
+): Pick<TokenEndpoint, "params" | "encoding"> | undefined {
+  if (body instanceof URLSearchParams) {
+    return { params: Object.fromEntries(body), encoding: "form" };
+  }
+  if (typeof body !== "string") return undefined;
+  try {
+    const json = JSON.parse(body);
+    if (json && typeof json === "object" && !Array.isArray(json)) {
+      const params: Record<string, string> = {};
+      for (const [k, v] of Object.entries(json)) params[k] = String(v);
+      return { params, encoding: "json" };
+    }
+  } catch {
+    // Not JSON; treat as a form body
+  }
+  return { params: Object.fromEntries(new URLSearchParams(body)), encoding: "form" };
+}
+
+/**
+ * Called for every fetch a tool makes. When the request is an OAuth token
+ * exchange or refresh (what an extension's `refreshTokens` helper does),
+ * hold on to the endpoint for the call. The PKCEClient whose setTokens
+ * receives the resulting tokens saves it for its provider, so raybridge
+ * can refresh that provider's tokens itself later.
+ */
+export function recordTokenRequest(input: RequestInfo | URL, init?: RequestInit): void {
+  const context = currentContext();
+  if (!context.extensionName || (init && ownRequests.has(init))) return;
+  const parsed = parseTokenRequestBody(init?.body);
+  const grantType = parsed?.params.grant_type;
+  if (!parsed || (grantType !== "authorization_code" && grantType !== "refresh_token")) {
+    return;
+  }
+
+  const params = Object.fromEntries(
+    Object.entries(parsed.params).filter(([k]) => REFRESH_PARAMS.has(k))
+  );
+  const url = input instanceof Request ? input.url : String(input);
+  context.pendingTokenEndpoint = { url, params, encoding: parsed.encoding };
+}
+
+/**
+ * Use the extension's configured token endpoint for a client's refreshes
+ * (OAuthService's tokenUrl) instead of one seen in its requests.
+ */
+export function configureTokenEndpoint(client: PKCEClient, endpoint: TokenEndpoint): void {
+  configuredEndpoints.set(client, endpoint);
+}
+
+async function requestRefresh(
+  endpoint: TokenEndpoint,
+  refreshToken: string
+): Promise<TokenInput> {
+  const params = {
+    ...endpoint.params,
+    grant_type: "refresh_token",
+    refresh_token: refreshToken,
+  };
+  const init: RequestInit = {
+    method: "POST",
+    headers:
+      endpoint.encoding === "json"
+        ? { "Content-Type": "application/json", Accept: "application/json" }
+        : { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: endpoint.encoding === "json" ? JSON.stringify(params) : new URLSearchParams(params),
+  };
+  ownRequests.add(init);
+  const response = await fetch(endpoint.url, init);
+  if (!response.ok) {
+    throw new Error(`${endpoint.url} responded ${response.status} ${response.statusText}`);
+  }
+  return (await response.json()) as TokenInput;
+}
+
+/**
+ * Refresh an expired token set against its provider's token endpoint and
+ * store the result. Concurrent callers share one request, since providers
+ * that rotate refresh tokens accept each one only once.
+ */
+function refreshTokenSet(
+  extensionName: string,
+  client: PKCEClient,
+  tokens: StoredTokenSet
+): Promise<StoredTokenSet> {
+  const provider = client.provider;
+  const key = `${extensionName}:${providerKey(provider)}:${accountName(tokens)}`;
+  let refresh = refreshes.get(key);
+  if (!refresh) {
+    refresh = (async () => {
+      const endpoint =
+        configuredEndpoints.get(client) ??
+        (await loadTokenEndpoint(extensionName, providerKey(provider)));
+      if (!endpoint) {
+        throw new Error("no token endpoint is known for this provider yet");
+      }
+      const response = await requestRefresh(endpoint, tokens.refreshToken!);
+      const refreshed = normalizeTokens(response, provider);
+      // Providers that don't rotate refresh tokens omit them from the response
+      refreshed.refreshToken ??= tokens.refreshToken;
+      refreshed.scope ??= tokens.scope;
+      // Keep refreshed Raycast sets addressable by their original account
+      refreshed.account = tokens.account ?? tokens.id;
+      await saveStoredTokens(extensionName, refreshed);
+      console.error(`raybridge: Refreshed OAuth tokens for ${extensionName}`);
+      return refreshed;
+    })().finally(() => refreshes.delete(key));
+    refreshes.set(key, refresh);
+  }
+  return refresh;
+}
+
+interface AuthorizationRequestOptions {
+  endpoint: string;
+  clientId: string;
+  scope: string;
+  extraParameters?: Record<string, string>;
+}
+
+interface AuthorizationRequest {
+  codeChallenge: string;
+  codeVerifier: string;
+  state: string;
+  redirectURI: string;
+  toURL(): string;
+}
+
+/** Token response shapes accepted by setTokens */
+type TokenInput = {
+  accessToken?: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresIn?: number;
+  scope?: string;
+  access_token?: string;
+  refresh_token?: string;
+  id_token?: string;
+  expires_in?: number;
+  token_type?: string;
+};
+
+function normalizeTokens(
+  tokens: TokenInput,
+  provider: { providerName?: string; providerId?: string }
+): StoredTokenSet {
+  const accessToken = tokens.accessToken ?? tokens.access_token;
+  if (!accessToken) {
+    throw new Error("Token response has no access token");
+  }
+  return {
+    providerName: provider.providerName,
+    providerId: provider.providerId,
+    accessToken,
+    refreshToken: tokens.refreshToken ?? tokens.refresh_token,
+    idToken: tokens.idToken ?? tokens.id_token,
+    expiresIn: tokens.expiresIn ?? tokens.expires_in,
+    scope: tokens.scope,
+    tokenType: tokens.token_type,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function isExpired(tokens: TokenSet): boolean {
+  if (!tokens.expiresIn || !tokens.updatedAt) return false;
+  const updatedMs = typeof tokens.updatedAt === "string"
+    ? new Date(tokens.updatedAt).getTime()
+    : tokens.updatedAt;
+  return Date.now() > updatedMs + tokens.expiresIn * 1000;
+}
+
+function toTokenSet(tokens: TokenSet | StoredTokenSet) {
+  return {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    idToken: tokens.idToken,
+    expiresIn: tokens.expiresIn,
+    scope: tokens.scope,
+    updatedAt: tokens.updatedAt ? new Date(tokens.updatedAt) : undefined,
+    isExpired: () => isExpired(tokens),
+  };
+}
+
+/**
+ * OAuth.PKCEClient - real PKCE with a loopback redirect. Tokens set by
+ * extensions go to raybridge's token store and take precedence over the
+ * ones read from Raycast's DB.
+ */
+export class PKCEClient {
+  private providerName?: string;
+  private providerId?: string;
+
+  constructor(options?: { providerName?: string; providerId?: string }) {
+    this.providerName = options?.providerName;
+    this.providerId = options?.providerId;
+  }
+
+  get provider(): { providerName?: string; providerId?: string } {
+    return { providerName: this.providerName, providerId: this.providerId };
+  }
+
+  async authorizationRequest(
+    opts: AuthorizationRequestOptions
+  ): Promise<AuthorizationRequest> {
+    const codeVerifier = base64url(randomBytes(32));
+    const codeChallenge = base64url(
+      createHash("sha256").update(codeVerifier).digest()
+    );
+    const state = base64url(randomBytes(16));
+    const redirect = await LoopbackRedirect.start(state);
+    pendingRedirects.set(state, redirect);
+
+    const url = new URL(opts.endpoint);
+    url.searchParams.set("client_id", opts.clientId);
+    url.searchParams.set("scope", opts.scope);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("redirect_uri", redirect.redirectURI);
+    url.searchParams.set("state", state);
+    url.searchParams.set("code_challenge_method", "S256");
+    url.searchParams.set("code_challenge", codeChallenge);
+    if (opts.extraParameters) {
+      for (const [k, v] of Object.entries(opts.extraParameters)) {
+        url.searchParams.set(k, v);
+      }
+    }
+
+    return {
+      codeChallenge,
+      codeVerifier,
+      state,
+      redirectURI: redirect.redirectURI,
+      toURL: () => url.toString(),
+    };
+  }
+
+  async authorize(
+    request: AuthorizationRequest | { url: string }
+  ): Promise<{ authorizationCode: string }> {
+    const url = "toURL" in request ? request.toURL() : request.url;
+    const state = new URL(url).searchParams.get("state") || "";
+    const redirect = pendingRedirects.get(state);
+    if (!redirect) {
+      throw new Error("Unknown authorization request; call authorizationRequest() first");
+    }
+
+    const { extensionName, client, signal, account } = currentContext();
+    const provider = this.providerName || extensionName;
+    console.error(`raybridge: Authorize ${provider} at ${url}`);
+
+    try {
+      if (!client?.openAuthorizationUrl) {
+        throw new Error(
+          `${provider} needs OAuth authorization, but the MCP client cannot show an authorization link. ` +
+          `Run \`raybridge auth ${extensionName} <tool>${account ? ` --account ${account}` : ""}\` ` +
+          `in a terminal to authorize it.`
+        );
+      }
+
+      const declined = client
+        .openAuthorizationUrl({
+          url,
+          message: `Sign in to ${provider} to let raybridge use it.`,
+        })
+        .then((accepted) =>
+          accepted
+            ? new Promise<never>(() => {})
+            : Promise.reject(new Error(`Authorization for ${provider} was declined`))
+        );
+
+      // The code may arrive before the prompt settles; never leave it unhandled
+      declined.catch(() => {});
+
+      const authorizationCode = await Promise.race([
+        redirect.waitForCode(signal),
+        declined,
+      ]);
+      return { authorizationCode };
+    } finally {
+      pendingRedirects.delete(state);
+      redirect.close();
+    }
+  }
+
+  /**
+   * Token set for the call's account (see ExtensionContext.account), or the
+   * first available one. Returns undefined for an unknown account so the
+   * extension starts an authorization that signs in to it.
+   */
+  async getTokens() {
+    const { extensionName: extName, account } = currentContext();
+
+    const candidates = providerTokenSets(extName, await loadStoredTokens(extName), {
+      providerName: this.providerName,
+      providerId: this.providerId,
+    });
+    const tokens = account
+      ? candidates.find((t) => accountName(t) === account)
+      : candidates[0];
+    if (!tokens) {
+      if (account && candidates.length > 0) {
+        console.error(`raybridge: No OAuth tokens for ${extName} account "${account}"`);
+      }
+      return undefined;
+    }
+
+    if (tokens.refreshToken && isExpired(tokens)) {
+      try {
+        return toTokenSet(await refreshTokenSet(extName, this, tokens));
+      } catch (err: any) {
+        // Hand back the expired set; the extension may refresh it itself
+        console.error(
+          `raybridge: Could not refresh OAuth tokens for ${extName}: ${err?.message || err}`
+        );
+      }
+    }
+    return toTokenSet(tokens);
+  }
+
+  async setTokens(tokens: TokenInput) {
+    if (!(tokens.accessToken ?? tokens.access_token)) {
+      throw new Error("setTokens requires an access token");
+    }
+    const context = currentContext();
+    const { extensionName, account, pendingTokenEndpoint } = context;
+    await saveStoredTokens(extensionName, {
+      ...normalizeTokens(tokens, this.provider),
+      account,
+    });
+    // The token request that produced these tokens went to this provider
+    if (pendingTokenEndpoint) {
+      context.pendingTokenEndpoint = undefined;
+      await saveTokenEndpoint(extensionName, providerKey(this.provider), pendingTokenEndpoint).catch(
+        (err) => console.error(`raybridge: Could not save token endpoint for ${extensionName}:`, err)
+      );
+    }
+  }
+
+  async removeTokens() {
+    const { extensionName, account } = currentContext();
+    await removeStoredTokens(extensionName, this.providerName, account);
+  }
+}
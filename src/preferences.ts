@@ -0,0 +1,86 @@
+import type { PreferenceEntry } from "./discovery.js";
+
+/**
+ * Preference values as Raycast hands them to extensions: stored values
+ * merged over manifest defaults and coerced to the declared type.
+ */
+
+/** The value Raycast uses when nothing is stored. */
+function defaultValue(pref: PreferenceEntry): unknown {
+  if (pref.default !== undefined) return pref.default;
+  if (pref.type === "checkbox") return false;
+  if (pref.type === "dropdown") return pref.data?.[0]?.value;
+  return undefined;
+}
+
+function coerce(pref: PreferenceEntry, value: unknown): unknown {
+  if (value === undefined || value === null) return value;
+  if (pref.type === "checkbox") {
+    if (typeof value === "string") return value.trim().toLowerCase() === "true";
+    return Boolean(value);
+  }
+  // Every other preference type is a string in Raycast
+  return typeof value === "string" ? value : String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+/**
+ * Values for `getPreferenceValues()`: declared preferences get their
+ * default when nothing is stored and are coerced to their type. Stored
+ * values without a declaration are passed through unchanged.
+ */
+export function resolvePreferenceValues(
+  declared: PreferenceEntry[],
+  stored: Record<string, unknown>
+): Record<string, unknown> {
+  const values = { ...stored };
+  for (const pref of declared) {
+    const value = isEmpty(stored[pref.name]) ? defaultValue(pref) : stored[pref.name];
+    if (value !== undefined) values[pref.name] = coerce(pref, value);
+  }
+  return values;
+}
+
+/** Required preferences that have neither a stored value nor a default. */
+export function missingPreferences(
+  declared: PreferenceEntry[],
+  stored: Record<string, unknown>
+): PreferenceEntry[] {
+  const values = resolvePreferenceValues(declared, stored);
+  return declared.filter((p) => p.required && isEmpty(values[p.name]));
+}
+
+/** A call was blocked because required preferences have no value. */
+export class MissingPreferencesError extends Error {
+  constructor(extensionName: string, missing: PreferenceEntry[]) {
+    super(missingPreferencesMessage(extensionName, missing));
+    this.name = "MissingPreferencesError";
+  }
+}
+
+function missingPreferencesMessage(
+  extensionName: string,
+  missing: PreferenceEntry[]
+): string {
+  const names = missing.map((p) => `"${p.title}" (${p.name})`).join(", ");
+  // Passwords belong in the secret store, referenced from preferences.json
+  const secretName = (p: PreferenceEntry) => `${extensionName}-${p.name}`;
+  const example = JSON.stringify(
+    {
+      [extensionName]: Object.fromEntries(
+        missing.map((p) => [p.name, p.type === "password" ? `\${secret:${secretName(p)}}` : "..."])
+      ),
+    },
+    null,
+    2
+  );
+  const passwords = missing.filter((p) => p.type === "password");
+  const storeHint =
+    passwords.length > 0
+      ? `\nStore the secret value${passwords.length !== 1 ? "s" : ""} first with ${passwords.map((p) => `\`raybridge secret set ${secretName(p)}\``).join(", ")}.`
+      : "";
+  return `${extensionName} is missing required preference${missing.length !== 1 ? "s" : ""} ${names}. Set ${missing.length !== 1 ? "them" : "it"} in ~/.config/raybridge/preferences.json:\n${example}${storeHint}\nor through a credential provider (env, vault, command).`;
+}
@@ -0,0 +1,925 @@
+import { execFile } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { ask, type AskOptions } from "./ai.js";
+import { currentContext, type ExtensionContext } from "./context.js";
+import { getItem, removeItem, setItem } from "./local-storage.js";
+import { PKCEClient, configureTokenEndpoint } from "./oauth.js";
+import {
+  HOST_COMPONENT,
+  createElement,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "./react.js";
+import { Toast, showToast } from "./toast.js";
+
+/**
+ * @raycast/utils for extensions running under raybridge. OAuthService and
+ * withAccessToken keep tokens in raybridge's token store (through the
+ * PKCEClient shim); the data hooks run on the headless React; the other
+ * helpers work without Raycast where they can.
+ */
+
+// ============================================================================
+// OAuth
+// ============================================================================
+
+interface OnAuthorizeParams {
+  token: string;
+  type: "oauth" | "personal";
+  idToken?: string;
+}
+
+interface OAuthServiceOptions {
+  client: PKCEClient;
+  /** Required to sign in or refresh from raybridge (see PRESETS) */
+  clientId?: string;
+  scope: string | string[];
+  authorizeUrl: string;
+  tokenUrl: string;
+  refreshTokenUrl?: string;
+  personalAccessToken?: string;
+  bodyEncoding?: "json" | "url-encoded";
+  extraParameters?: Record<string, string>;
+  onAuthorize?: (params: OnAuthorizeParams) => void;
+  tokenResponseParser?: (response: unknown) => any;
+  tokenRefreshResponseParser?: (response: unknown) => any;
+}
+
+type PresetOptions = Partial<Omit<OAuthServiceOptions, "client">> & {
+  scope: string | string[];
+};
+
+/**
+ * The providers' own endpoints. Raycast's presets default to Raycast-hosted
+ * clients that only redirect back to Raycast, so signing in from raybridge
+ * needs the extension to pass its own `clientId`; tokens Raycast already
+ * holds for the provider are used either way.
+ */
+const PRESETS: Record<string, { providerName: string; authorizeUrl: string; tokenUrl: string }> = {
+  asana: {
+    providerName: "Asana",
+    authorizeUrl: "https://app.asana.com/-/oauth_authorize",
+    tokenUrl: "https://app.asana.com/-/oauth_token",
+  },
+  github: {
+    providerName: "GitHub",
+    authorizeUrl: "https://github.com/login/oauth/authorize",
+    tokenUrl: "https://github.com/login/oauth/access_token",
+  },
+  google: {
+    providerName: "Google",
+    authorizeUrl: "https://accounts.google.com/o/oauth2/v2/auth",
+    tokenUrl: "https://oauth2.googleapis.com/token",
+  },
+  jira: {
+    providerName: "Jira",
+    authorizeUrl: "https://auth.atlassian.com/authorize",
+    tokenUrl: "https://auth.atlassian.com/oauth/token",
+  },
+  linear: {
+    providerName: "Linear",
+    authorizeUrl: "https://linear.app/oauth/authorize",
+    tokenUrl: "https://api.linear.app/oauth/token",
+  },
+  slack: {
+    providerName: "Slack",
+    authorizeUrl: "https://slack.com/oauth/v2/authorize",
+    tokenUrl: "https://slack.com/api/oauth.v2.access",
+  },
+  zoom: {
+    providerName: "Zoom",
+    authorizeUrl: "https://zoom.us/oauth/authorize",
+    tokenUrl: "https://zoom.us/oauth/token",
+  },
+};
+
+/** OAuthService - authorization code flow with PKCE, refreshing as needed. */
+class OAuthService {
+  client: PKCEClient;
+  clientId?: string;
+  scope: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  refreshTokenUrl?: string;
+  personalAccessToken?: string;
+  bodyEncoding: "json" | "url-encoded";
+  extraParameters?: Record<string, string>;
+  onAuthorize?: (params: OnAuthorizeParams) => void;
+  tokenResponseParser: (response: unknown) => any;
+  tokenRefreshResponseParser: (response: unknown) => any;
+
+  constructor(options: OAuthServiceOptions) {
+    this.client = options.client;
+    this.clientId = options.clientId;
+    this.scope = Array.isArray(options.scope) ? options.scope.join(" ") : options.scope;
+    this.authorizeUrl = options.authorizeUrl;
+    this.tokenUrl = options.tokenUrl;
+    this.refreshTokenUrl = options.refreshTokenUrl;
+    this.personalAccessToken = options.personalAccessToken;
+    this.bodyEncoding = options.bodyEncoding ?? "json";
+    this.extraParameters = options.extraParameters;
+    this.onAuthorize = options.onAuthorize;
+    this.tokenResponseParser = options.tokenResponseParser ?? ((response) => response);
+    this.tokenRefreshResponseParser =
+      options.tokenRefreshResponseParser ?? ((response) => response);
+    // Refreshes of this client's tokens go to the configured endpoint
+    if (this.clientId) {
+      configureTokenEndpoint(this.client, {
+        url: this.refreshTokenUrl ?? this.tokenUrl,
+        params: { client_id: this.clientId },
+        encoding: this.bodyEncoding === "json" ? "json" : "form",
+      });
+    }
+  }
+
+  static asana = (options: PresetOptions) => OAuthService.preset("asana", options);
+  static github = (options: PresetOptions) => OAuthService.preset("github", options);
+  static google = (options: PresetOptions) => OAuthService.preset("google", options);
+  static jira = (options: PresetOptions) => OAuthService.preset("jira", options);
+  static linear = (options: PresetOptions) => OAuthService.preset("linear", options);
+  static slack = (options: PresetOptions) => OAuthService.preset("slack", options);
+  static zoom = (options: PresetOptions) => OAuthService.preset("zoom", options);
+
+  private static preset(id: string, options: PresetOptions): OAuthService {
+    const preset = PRESETS[id];
+    return new OAuthService({
+      client: new PKCEClient({ providerName: preset.providerName, providerId: id }),
+      authorizeUrl: preset.authorizeUrl,
+      tokenUrl: preset.tokenUrl,
+      ...options,
+    });
+  }
+
+  /** Access token, from the token store, a refresh or a new sign-in. */
+  async authorize(): Promise<string> {
+    if (this.personalAccessToken) return this.personalAccessToken;
+
+    const current = await this.client.getTokens();
+    if (current?.accessToken) {
+      if (!current.isExpired()) return current.accessToken;
+      if (current.refreshToken) {
+        const refreshed = this.tokenRefreshResponseParser(
+          await this.requestTokens(this.refreshTokenUrl ?? this.tokenUrl, {
+            client_id: this.requireClientId("refresh its tokens"),
+            refresh_token: current.refreshToken,
+            grant_type: "refresh_token",
+          })
+        );
+        refreshed.refresh_token ??= refreshed.refreshToken ?? current.refreshToken;
+        await this.client.setTokens(refreshed);
+        return refreshed.access_token ?? refreshed.accessToken;
+      }
+    }
+
+    const clientId = this.requireClientId("sign in");
+    const request = await this.client.authorizationRequest({
+      endpoint: this.authorizeUrl,
+      clientId,
+      scope: this.scope,
+      extraParameters: this.extraParameters,
+    });
+    const { authorizationCode } = await this.client.authorize(request);
+    const tokens = this.tokenResponseParser(
+      await this.requestTokens(this.tokenUrl, {
+        client_id: clientId,
+        code: authorizationCode,
+        code_verifier: request.codeVerifier,
+        grant_type: "authorization_code",
+        redirect_uri: request.redirectURI,
+      })
+    );
+    await this.client.setTokens(tokens);
+    return tokens.access_token ?? tokens.accessToken;
+  }
+
+  /**
+   * The extension's own client ID. The presets otherwise use clients hosted
+   * by Raycast, which only work from Raycast.
+   */
+  private requireClientId(action: string): string {
+    if (this.clientId) return this.clientId;
+    const provider = this.client.provider.providerName ?? this.authorizeUrl;
+    throw new Error(
+      `${provider} needs a clientId to ${action} from raybridge: Raycast's hosted OAuth clients only work from Raycast. Pass clientId to the OAuthService, or sign in from Raycast first.`
+    );
+  }
+
+  private async requestTokens(url: string, params: Record<string, string>): Promise<unknown> {
+    const json = this.bodyEncoding === "json";
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": json ? "application/json" : "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: json ? JSON.stringify(params) : new URLSearchParams(params),
+    });
+    if (!response.ok) {
+      throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+interface AccessTokenOptions {
+  authorize?: () => Promise<string>;
+  personalAccessToken?: string;
+  onAuthorize?: (params: OnAuthorizeParams) => void;
+}
+
+/** Tokens obtained by withAccessToken, per call */
+const accessTokens = new WeakMap<ExtensionContext, OnAuthorizeParams>();
+
+async function authorizeCall(options: OAuthService | AccessTokenOptions): Promise<void> {
+  const personal = options.personalAccessToken;
+  const token = personal ?? (await options.authorize!());
+  const params: OnAuthorizeParams = { token, type: personal ? "personal" : "oauth" };
+  accessTokens.set(currentContext(), params);
+  await options.onAuthorize?.(params);
+}
+
+/** Stands in for a view while it waits for authorization. */
+const AuthorizingView = Object.assign(() => null, { [HOST_COMPONENT]: "Detail" });
+
+/**
+ * withAccessToken - authorize before a tool, no-view command or view
+ * runs. Views render as loading until the token is available.
+ */
+function withAccessToken(options: OAuthService | AccessTokenOptions) {
+  return <T extends (...args: any[]) => any>(fnOrComponent: T) => {
+    function WithAccessToken(...args: unknown[]) {
+      if (currentContext().commandMode !== "view") {
+        return authorizeCall(options).then(() => fnOrComponent(...args));
+      }
+      const [authorized, setAuthorized] = useState(false);
+      const [error, setError] = useState<unknown>(undefined);
+      useEffect(() => {
+        authorizeCall(options).then(() => setAuthorized(true), setError);
+      }, []);
+      if (error) throw error;
+      return authorized
+        ? createElement(fnOrComponent, args[0] as Record<string, unknown>)
+        : createElement(AuthorizingView, { isLoading: true });
+    }
+    return WithAccessToken as unknown as T;
+  };
+}
+
+/** getAccessToken - the token withAccessToken obtained for this call. */
+function getAccessToken(): OnAuthorizeParams {
+  const params = accessTokens.get(currentContext());
+  if (!params) {
+    throw new Error("getAccessToken must be used when authenticated (e.g. used inside `withAccessToken`)");
+  }
+  return params;
+}
+
+// ============================================================================
+// Feedback
+// ============================================================================
+
+interface FailureToastOptions {
+  title?: string;
+  message?: string;
+  primaryAction?: unknown;
+}
+
+/** showFailureToast - a failure toast for an error. */
+function showFailureToast(error: unknown, options?: FailureToastOptions): Promise<Toast> {
+  const message = error instanceof Error ? error.message : String(error);
+  return showToast({
+    style: "failure",
+    title: options?.title ?? "Something went wrong",
+    message: options?.message ?? message,
+    primaryAction: options?.primaryAction,
+  });
+}
+
+/** getFavicon - icon source for a website's favicon. */
+function getFavicon(
+  url: string | URL,
+  options?: { size?: number; fallback?: string; mask?: string }
+) {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return options?.fallback ?? "";
+  }
+  return {
+    source: `https://www.google.com/s2/favicons?sz=${options?.size ?? 64}&domain=${hostname}`,
+    fallback: options?.fallback,
+    mask: options?.mask,
+  };
+}
+
+/** Avatar backgrounds, picked by a hash of the name */
+const AVATAR_COLORS = [
+  "#DC829A", "#D64854", "#D47600", "#D36CDD", "#52A9E4", "#7871E8", "#70920F",
+  "#43B93A", "#EB6B3E", "#26B795", "#D85A9B", "#A067DC", "#BD9500", "#5385D9",
+];
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function svgDataUri(svg: string): string {
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+/** getAvatarIcon - a round avatar with the initials of a name, as an SVG data URI. */
+function getAvatarIcon(name: string, options: { background?: string; gradient?: boolean } = {}) {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  const initials = words.length > 1
+    ? `${words[0][0]}${words[words.length - 1][0]}`
+    : (words[0]?.[0] ?? "");
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  const background = options.background ?? AVATAR_COLORS[hash % AVATAR_COLORS.length];
+  return svgDataUri(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100">` +
+      `<circle cx="50" cy="50" r="50" fill="${escapeXml(background)}"/>` +
+      `<text x="50" y="50" fill="#fff" font-family="sans-serif" font-size="${words.length > 1 ? 40 : 50}" text-anchor="middle" dominant-baseline="central">${escapeXml(initials.toUpperCase())}</text>` +
+      `</svg>`
+  );
+}
+
+/** getProgressIcon - a pie chart of progress between 0 and 1, as an SVG data URI. */
+function getProgressIcon(
+  progress: number,
+  color = "#FF6363",
+  options: { background?: string; backgroundOpacity?: number } = {}
+) {
+  const fraction = Math.min(Math.max(progress, 0), 1);
+  const angle = fraction * 2 * Math.PI;
+  const x = 50 + 50 * Math.sin(angle);
+  const y = 50 - 50 * Math.cos(angle);
+  const pie = fraction >= 1
+    ? `<circle cx="50" cy="50" r="50" fill="${escapeXml(color)}"/>`
+    : fraction > 0
+      ? `<path d="M50 50 L50 0 A50 50 0 ${fraction > 0.5 ? 1 : 0} 1 ${x.toFixed(2)} ${y.toFixed(2)} Z" fill="${escapeXml(color)}"/>`
+      : "";
+  return svgDataUri(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100">` +
+      `<circle cx="50" cy="50" r="50" fill="${escapeXml(options.background ?? color)}" fill-opacity="${options.backgroundOpacity ?? 0.1}"/>` +
+      pie +
+      `</svg>`
+  );
+}
+
+// ============================================================================
+// System helpers
+// ============================================================================
+
+interface AppleScriptOptions {
+  humanReadableOutput?: boolean;
+  language?: "AppleScript" | "JavaScript";
+  signal?: AbortSignal;
+  timeout?: number;
+  parseOutput?: (output: { stdout: string; stderr: string; error?: Error }) => unknown;
+}
+
+interface RunOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  shell?: boolean | string;
+  /** Written to stdin */
+  input?: string;
+  missing: string;
+}
+
+function run(
+  file: string,
+  args: string[],
+  options: RunOptions
+): Promise<{ stdout: string; stderr: string; error?: Error }> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      file,
+      args,
+      {
+        signal: options.signal ?? currentContext().signal,
+        timeout: options.timeout,
+        cwd: options.cwd,
+        env: options.env,
+        shell: options.shell,
+        maxBuffer: 64 * 1024 * 1024,
+      },
+      (error, stdout, stderr) => {
+        if ((error as NodeJS.ErrnoException | null)?.code === "ENOENT") {
+          reject(new Error(options.missing));
+          return;
+        }
+        resolve({ stdout, stderr, error: error ?? undefined });
+      }
+    );
+    child.stdin?.end(options.input);
+  });
+}
+
+/**
+ * runAppleScript - runs the script with osascript, so only on macOS.
+ * Accepts `(script, options)` or `(script, args, options)`.
+ */
+export async function runAppleScript(
+  script: string,
+  argsOrOptions?: string[] | AppleScriptOptions,
+  maybeOptions?: AppleScriptOptions
+): Promise<unknown> {
+  const args = Array.isArray(argsOrOptions) ? argsOrOptions : [];
+  const options = (Array.isArray(argsOrOptions) ? maybeOptions : argsOrOptions) ?? {};
+  const flags = [];
+  if (options.language === "JavaScript") flags.push("-l", "JavaScript");
+  if (options.humanReadableOutput === false) flags.push("-ss");
+
+  const output = await run("osascript", [...flags, "-e", script, ...args], {
+    signal: options.signal,
+    timeout: options.timeout ?? 10_000,
+    missing: "runAppleScript needs macOS: osascript is not available",
+  });
+  if (options.parseOutput) return options.parseOutput(output);
+  if (output.error) {
+    throw new Error(output.stderr.trim() || output.error.message);
+  }
+  return output.stdout.replace(/\n$/, "");
+}
+
+const DeeplinkType = { Extension: "extension", ScriptCommand: "script-command" } as const;
+
+interface DeeplinkOptions {
+  type?: "extension" | "script-command";
+  command: string;
+  launchType?: "userInitiated" | "background";
+  arguments?: Record<string, string> | string[];
+  fallbackText?: string;
+  ownerOrAuthorName?: string;
+  extensionName?: string;
+}
+
+/** The running extension's owner, or else its author, from its manifest. */
+function manifestOwner(extensionDir: string): string | undefined {
+  try {
+    const pkg = JSON.parse(readFileSync(join(extensionDir, "package.json"), "utf-8"));
+    return pkg.owner ?? pkg.author;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * createDeeplink - a raycast:// link to a script command or an extension's
+ * command (the running extension's unless another is named). The link only
+ * opens where Raycast is installed.
+ */
+function createDeeplink(options: DeeplinkOptions): string {
+  if (options.type === "script-command") {
+    const params = new URLSearchParams();
+    for (const arg of Array.isArray(options.arguments) ? options.arguments : []) {
+      params.append("arguments", arg);
+    }
+    const query = params.toString();
+    return `raycast://script-commands/${encodeURIComponent(options.command)}${query ? `?${query}` : ""}`;
+  }
+
+  const { extensionName, extensionDir } = currentContext();
+  const owner = options.ownerOrAuthorName ?? (extensionDir ? manifestOwner(extensionDir) : undefined);
+  const name = options.extensionName ?? extensionName;
+  if (!owner || !name) {
+    throw new Error("createDeeplink needs ownerOrAuthorName and extensionName for this extension");
+  }
+  const params = new URLSearchParams();
+  if (options.launchType) params.set("launchType", options.launchType);
+  if (options.arguments) params.set("arguments", JSON.stringify(options.arguments));
+  if (options.fallbackText) params.set("fallbackText", options.fallbackText);
+  const query = params.toString();
+  return `raycast://extensions/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/${encodeURIComponent(options.command)}${query ? `?${query}` : ""}`;
+}
+
+/** executeSQL - a read-only query against a SQLite database, via the sqlite3 CLI. */
+async function executeSQL<T = unknown>(databasePath: string, query: string): Promise<T[]> {
+  const { stdout, stderr, error } = await run("sqlite3", ["-readonly", "-json", databasePath, query], {
+    missing: "executeSQL needs the sqlite3 command-line tool",
+  });
+  if (error) throw new Error(stderr.trim() || error.message);
+  return stdout.trim() ? JSON.parse(stdout) : [];
+}
+
+// ============================================================================
+// Data hooks
+// ============================================================================
+
+interface PromiseOptions<T> {
+  execute?: boolean;
+  initialData?: T;
+  abortable?: { current: AbortController | null | undefined };
+  onData?: (data: T) => void;
+  onError?: (error: Error) => void;
+  onWillExecute?: (args: unknown[]) => void;
+  failureToastOptions?: FailureToastOptions;
+}
+
+interface PromiseState<T> {
+  isLoading: boolean;
+  data?: T;
+  error?: Error;
+  /** Whether the first page of a paginated function said there are more */
+  hasMore?: boolean;
+}
+
+/** The previous value while the new one is deeply equal, for stable deps. */
+function useDeepMemo<T>(value: T): T {
+  const ref = useRef<{ value: T; key?: string }>({ value });
+  let key: string | undefined;
+  try {
+    key = JSON.stringify(value);
+  } catch {
+    key = undefined;
+  }
+  if (key === undefined || key !== ref.current.key) ref.current = { value, key };
+  return ref.current.value;
+}
+
+/**
+ * usePromise - runs `fn(...args)` whenever the args change. Paginated
+ * functions (returning a function of the page) load the first page only;
+ * there is no one to scroll for more.
+ */
+function usePromise<T>(
+  fn: (...args: any[]) => Promise<T> | ((pagination: any) => Promise<any>),
+  args: unknown[] = [],
+  options: PromiseOptions<T> = {}
+) {
+  const [state, setState] = useState<PromiseState<T>>({
+    isLoading: options.execute !== false,
+    data: options.initialData,
+  });
+  const latest = useRef({ fn, args, options });
+  latest.current = { fn, args, options };
+  const calls = useRef(0);
+
+  const revalidate = useCallback(async () => {
+    const { fn, args, options } = latest.current;
+    const call = ++calls.current;
+    if (options.abortable) {
+      options.abortable.current?.abort();
+      options.abortable.current = new AbortController();
+    }
+    options.onWillExecute?.(args);
+    setState((prev) => ({ ...prev, isLoading: true }));
+    try {
+      let data: any = await fn(...args);
+      let hasMore = false;
+      if (typeof data === "function") {
+        const page = await data({ page: 0, cursor: undefined, lastItem: undefined });
+        hasMore = !!page?.hasMore;
+        data = page?.data;
+      }
+      if (call === calls.current) {
+        setState({ data, isLoading: false, hasMore });
+        options.onData?.(data);
+      }
+      return data as T;
+    } catch (err: any) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (call === calls.current) {
+        setState((prev) => ({ ...prev, error, isLoading: false }));
+        if (options.onError) options.onError(error);
+        else showFailureToast(error, { title: "Failed to fetch latest data", ...options.failureToastOptions });
+      }
+      throw error;
+    }
+  }, []);
+
+  const deps = useDeepMemo(args);
+  useEffect(() => {
+    if (options.execute === false) {
+      setState((prev) => ({ ...prev, isLoading: false }));
+      return;
+    }
+    revalidate().catch(() => {
+      // Reported through state, onError or a failure toast
+    });
+  }, [deps, options.execute]);
+
+  const mutate = useCallback(
+    async (
+      asyncUpdate?: Promise<unknown>,
+      mutateOptions: {
+        optimisticUpdate?: (data: T | undefined) => T;
+        shouldRevalidateAfter?: boolean;
+      } = {}
+    ) => {
+      if (mutateOptions.optimisticUpdate) {
+        setState((prev) => ({ ...prev, data: mutateOptions.optimisticUpdate!(prev.data) }));
+      }
+      const result = await asyncUpdate;
+      if (mutateOptions.shouldRevalidateAfter !== false) await revalidate();
+      return result;
+    },
+    []
+  );
+
+  const { hasMore = false, ...result } = state;
+  return {
+    ...result,
+    revalidate,
+    mutate,
+    pagination: { pageSize: 0, hasMore, onLoadMore: () => {} },
+  };
+}
+
+/** useCachedPromise - usePromise; each headless call starts with an empty cache. */
+function useCachedPromise<T>(
+  fn: (...args: any[]) => Promise<T>,
+  args?: unknown[],
+  options?: PromiseOptions<T> & { keepPreviousData?: boolean }
+) {
+  return usePromise(fn, args, options);
+}
+
+interface FetchOptions<T> extends PromiseOptions<T>, Omit<RequestInit, "signal"> {
+  parseResponse?: (response: Response) => Promise<unknown>;
+  mapResult?: (result: any) => { data: T; hasMore?: boolean; cursor?: unknown };
+  keepPreviousData?: boolean;
+}
+
+async function defaultParseResponse(response: Response): Promise<unknown> {
+  if (!response.ok) throw new Error(response.statusText || `HTTP ${response.status}`);
+  const type = response.headers.get("content-type") ?? "";
+  return type.includes("json") ? response.json() : response.text();
+}
+
+/** useFetch - fetch a URL (or the first page of a paginated one) as a hook. */
+function useFetch<T>(
+  url: string | URL | ((pagination: { page: number; cursor?: unknown }) => string),
+  options: FetchOptions<T> = {}
+) {
+  const {
+    parseResponse = defaultParseResponse,
+    mapResult = (result: any) => ({ data: result }),
+    execute,
+    initialData,
+    abortable,
+    onData,
+    onError,
+    onWillExecute,
+    failureToastOptions,
+    keepPreviousData: _keepPreviousData,
+    ...init
+  } = options;
+
+  const request = async (target: string) => {
+    // usePromise has just replaced abortable.current for this run
+    const response = await fetch(target, { ...init, signal: abortable?.current?.signal } as RequestInit);
+    return mapResult(await parseResponse(response));
+  };
+
+  return usePromise(
+    (target: string, _init: unknown) =>
+      typeof url === "function"
+        ? Promise.resolve((pagination: { page: number; cursor?: unknown }) => request(url(pagination)))
+        : request(target).then((result) => result.data),
+    [typeof url === "function" ? "" : String(url), init],
+    { execute, initialData, abortable, onData, onError, onWillExecute, failureToastOptions }
+  );
+}
+
+interface ExecOptions<T> extends PromiseOptions<T> {
+  shell?: boolean | string;
+  stripFinalNewline?: boolean;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: string;
+  timeout?: number;
+  parseOutput?: (output: {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    error?: Error;
+  }) => T;
+}
+
+/**
+ * useExec - runs a command as a hook. Accepts `(command, options)` or
+ * `(command, args, options)`; without parseOutput a failing command
+ * throws its stderr and a successful one yields its stdout.
+ */
+function useExec<T = string>(
+  command: string,
+  argsOrOptions?: string[] | ExecOptions<T>,
+  maybeOptions?: ExecOptions<T>
+) {
+  const args = Array.isArray(argsOrOptions) ? argsOrOptions : [];
+  const options = (Array.isArray(argsOrOptions) ? maybeOptions : argsOrOptions) ?? {};
+  const {
+    shell,
+    stripFinalNewline = true,
+    cwd,
+    env,
+    input,
+    timeout,
+    parseOutput,
+    ...promiseOptions
+  } = options;
+
+  return usePromise(
+    async (file: string, fileArgs: string[]) => {
+      const output = await run(file, fileArgs, {
+        signal: promiseOptions.abortable?.current?.signal,
+        timeout,
+        cwd,
+        env: env && { ...process.env, ...env },
+        shell,
+        input,
+        missing: `${file} is not installed`,
+      });
+      const strip = (text: string) => (stripFinalNewline ? text.replace(/\r?\n$/, "") : text);
+      const stdout = strip(output.stdout);
+      const stderr = strip(output.stderr);
+      const code = (output.error as NodeJS.ErrnoException | undefined)?.code;
+      const exitCode = output.error ? (typeof code === "number" ? code : null) : 0;
+      if (parseOutput) return parseOutput({ stdout, stderr, exitCode, error: output.error });
+      if (output.error) throw new Error(stderr || output.error.message);
+      return stdout as T;
+    },
+    [command, args],
+    promiseOptions
+  );
+}
+
+/**
+ * useLocalStorage - a LocalStorage value as state. Values are stored as
+ * JSON, as Raycast does, so objects and arrays round-trip.
+ */
+function useLocalStorage<T>(key: string, initialValue?: T) {
+  const { extensionName } = currentContext();
+  const [state, setState] = useState<{ value?: T; isLoading: boolean }>({
+    value: initialValue,
+    isLoading: true,
+  });
+
+  useEffect(() => {
+    getItem(extensionName, key).then(
+      (stored) => {
+        let value = initialValue;
+        if (stored !== undefined) {
+          try {
+            value = JSON.parse(String(stored));
+          } catch {
+            // Stored through LocalStorage directly rather than this hook
+            value = stored as T;
+          }
+        }
+        setState({ value, isLoading: false });
+      },
+      (err) => {
+        setState({ value: initialValue, isLoading: false });
+        showFailureToast(err, { title: "Failed to load from local storage" });
+      }
+    );
+  }, [key]);
+
+  const setValue = useCallback(
+    async (value: T) => {
+      setState({ value, isLoading: false });
+      await setItem(extensionName, key, JSON.stringify(value));
+    },
+    [key]
+  );
+  const removeValue = useCallback(async () => {
+    setState({ value: undefined, isLoading: false });
+    await removeItem(extensionName, key);
+  }, [key]);
+
+  return { ...state, setValue, removeValue };
+}
+
+/** useAI - AI.ask as a hook, answered by the MCP client's model. */
+function useAI(prompt: string, options: PromiseOptions<string> & AskOptions & { stream?: boolean } = {}) {
+  const { creativity, model, stream: _stream, signal: _signal, ...promiseOptions } = options;
+  return usePromise(
+    (text: string) =>
+      ask(text, { creativity, model, signal: promiseOptions.abortable?.current?.signal }),
+    [prompt],
+    promiseOptions
+  );
+}
+
+type FormValidator = "required" | ((value: unknown) => string | undefined | null);
+
+interface FormOptions<T> {
+  onSubmit: (values: T) => void | boolean | Promise<void | boolean>;
+  initialValues?: Partial<T>;
+  validation?: Partial<Record<keyof T, FormValidator>>;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * useForm - form state, item props and validation on submit. A headless
+ * form is rendered but never submitted by a user; extensions can still
+ * call handleSubmit themselves.
+ */
+function useForm<T extends Record<string, unknown>>(options: FormOptions<T>) {
+  const [values, setValues] = useState<Partial<T>>(options.initialValues ?? {});
+  const [errors, setErrors] = useState<Record<string, string | undefined>>({});
+  const latest = useRef(options);
+  latest.current = options;
+
+  const setValue = useCallback((id: keyof T, value: unknown) => {
+    setValues((prev) => ({ ...prev, [id]: value }));
+  }, []);
+  const setValidationError = useCallback((id: keyof T, error?: string) => {
+    setErrors((prev) => ({ ...prev, [id]: error }));
+  }, []);
+
+  const handleSubmit = useCallback(async (submitted: T) => {
+    const found: Record<string, string | undefined> = {};
+    for (const [id, validator] of Object.entries(latest.current.validation ?? {})) {
+      const value = submitted[id];
+      found[id] = validator === "required"
+        ? isEmptyValue(value) ? "The item is required" : undefined
+        : (validator as Exclude<FormValidator, "required">)(value) ?? undefined;
+    }
+    setErrors(found);
+    if (Object.values(found).some(Boolean)) return false;
+    return latest.current.onSubmit(submitted);
+  }, []);
+
+  const itemProps = new Proxy({} as Record<string, unknown>, {
+    get(_, id) {
+      if (typeof id !== "string") return undefined;
+      return {
+        id,
+        value: values[id],
+        error: errors[id],
+        onChange: (value: unknown) => setValue(id, value),
+        onBlur: () => {},
+      };
+    },
+  });
+
+  return {
+    handleSubmit,
+    itemProps,
+    values,
+    setValue,
+    setValidationError,
+    reset: (initialValues?: Partial<T>) => {
+      setValues(initialValues ?? latest.current.initialValues ?? {});
+      setErrors({});
+    },
+    focus: (_id: keyof T) => {},
+  };
+}
+
+/** useSQL - executeSQL as a hook. */
+function useSQL<T>(databasePath: string, query: string, options?: PromiseOptions<T[]>) {
+  return usePromise(executeSQL<T>, [databasePath, query], options);
+}
+
+/** useCachedState - useState; nothing outlives a headless call. */
+function useCachedState<T>(_key: string, initialState?: T) {
+  return useState(initialState);
+}
+
+/** useFrecencySorting - no visit history without a user, so data as given. */
+function useFrecencySorting<T>(data?: T[]) {
+  return {
+    data: data ?? [],
+    visitItem: async (_item: T) => {},
+    resetRanking: async (_item: T) => {},
+  };
+}
+
+export const raycastUtils: Record<string, unknown> = {
+  OAuthService,
+  withAccessToken,
+  getAccessToken,
+  showFailureToast,
+  getFavicon,
+  getAvatarIcon,
+  getProgressIcon,
+  createDeeplink,
+  DeeplinkType,
+  runAppleScript,
+  executeSQL,
+  usePromise,
+  useCachedPromise,
+  useFetch,
+  useExec,
+  useLocalStorage,
+  useAI,
+  useForm,
+  useSQL,
+  useCachedState,
+  useFrecencySorting,
+};
@@ -0,0 +1,521 @@
+/**
+ * A headless React for extension code: elements, function components and
+ * hooks, rendered into a plain tree instead of a UI.
+ *
+ * Raycast components (List, Detail, ...) are host components: the shims
+ * mark them with HOST_COMPONENT and the renderer keeps them in the tree
+ * with their props. Function components are called, and their hooks work
+ * across re-renders, so a view command can load its data the way it does
+ * in Raycast. `renderView` re-renders on state changes until the view
+ * settles.
+ */
+
+/** Marks a host component; the value is its name, e.g. "List.Item". */
+export const HOST_COMPONENT = Symbol.for("raybridge.hostComponent");
+
+const ELEMENT = Symbol.for("react.element");
+const FRAGMENT = Symbol.for("react.fragment");
+const PROVIDER = Symbol.for("react.provider");
+
+export interface ReactElement {
+  $$typeof: symbol;
+  type: unknown;
+  key: string | null;
+  props: Record<string, any>;
+}
+
+/** A rendered host component. Element-valued props are rendered too. */
+export interface HostNode {
+  component: string;
+  props: Record<string, unknown>;
+  children: RenderedNode[];
+}
+
+export type RenderedNode = HostNode | string;
+
+interface Context<T> {
+  $$typeof: symbol;
+  defaultValue: T;
+  Provider: { $$typeof: symbol; context: Context<T> };
+  Consumer: (props: { children: (value: T) => unknown }) => unknown;
+}
+
+// ============================================================================
+// Elements
+// ============================================================================
+
+export function isValidElement(value: unknown): value is ReactElement {
+  return typeof value === "object" && value !== null && (value as any).$$typeof === ELEMENT;
+}
+
+function hostName(type: unknown): string | undefined {
+  if (typeof type !== "function") return undefined;
+  const name = (type as any)[HOST_COMPONENT];
+  return typeof name === "string" ? name : undefined;
+}
+
+function makeElement(type: unknown, props: Record<string, any>, key: unknown): ReactElement {
+  const defaults = hostName(type) === undefined ? (type as any)?.defaultProps : undefined;
+  if (defaults && typeof defaults === "object") {
+    for (const [name, value] of Object.entries(defaults)) {
+      if (props[name] === undefined) props[name] = value;
+    }
+  }
+  return { $$typeof: ELEMENT, type, key: key == null ? null : String(key), props };
+}
+
+export function createElement(
+  type: unknown,
+  config?: Record<string, any> | null,
+  ...children: unknown[]
+): ReactElement {
+  const { key, ref: _ref, ...props } = config ?? {};
+  if (children.length === 1) props.children = children[0];
+  else if (children.length > 1) props.children = children;
+  return makeElement(type, props, key);
+}
+
+/** Automatic JSX runtime (`jsx`, `jsxs`, `jsxDEV`). */
+export function jsx(type: unknown, config: Record<string, any>, key?: unknown): ReactElement {
+  const { key: configKey, ref: _ref, ...props } = config ?? {};
+  return makeElement(type, props, key ?? configKey);
+}
+
+export function cloneElement(
+  element: ReactElement,
+  config?: Record<string, any> | null,
+  ...children: unknown[]
+): ReactElement {
+  const { key, ref: _ref, ...props } = config ?? {};
+  const merged = { ...element.props, ...props };
+  if (children.length === 1) merged.children = children[0];
+  else if (children.length > 1) merged.children = children;
+  return { ...element, key: key == null ? element.key : String(key), props: merged };
+}
+
+export function createContext<T>(defaultValue: T): Context<T> {
+  const context = { $$typeof: Symbol.for("react.context"), defaultValue } as Context<T>;
+  context.Provider = { $$typeof: PROVIDER, context };
+  context.Consumer = ({ children }) => children(useContext(context));
+  return context;
+}
+
+function flattenChildren(children: unknown): unknown[] {
+  if (children === undefined || children === null || typeof children === "boolean") return [];
+  if (Array.isArray(children)) return children.flatMap(flattenChildren);
+  return [children];
+}
+
+const Children = {
+  toArray: (children: unknown) => flattenChildren(children),
+  count: (children: unknown) => flattenChildren(children).length,
+  map: (children: unknown, fn: (child: unknown, index: number) => unknown) =>
+    flattenChildren(children).map(fn),
+  forEach: (children: unknown, fn: (child: unknown, index: number) => void) =>
+    flattenChildren(children).forEach(fn),
+  only: (children: unknown) => {
+    const all = flattenChildren(children);
+    if (all.length !== 1) throw new Error("React.Children.only expected one child");
+    return all[0];
+  },
+};
+
+/** Class components render, but without state updates or lifecycles. */
+class Component<P = Record<string, any>, S = Record<string, any>> {
+  static isReactComponent = true;
+  props: P;
+  state = {} as S;
+  constructor(props: P) {
+    this.props = props;
+  }
+  setState(_update: Partial<S>) {}
+  forceUpdate() {}
+}
+(Component.prototype as any).isReactComponent = {};
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+type Deps = readonly unknown[] | undefined;
+
+interface EffectSlot {
+  deps?: Deps;
+  cleanup?: () => void;
+}
+
+interface ComponentInstance {
+  slots: any[];
+  /** Cleanups to run on unmount (effects, store subscriptions) */
+  unmount: Array<() => void>;
+}
+
+/** The render in progress, and the component whose hooks are being called. */
+let current: { root: HeadlessRoot; instance: ComponentInstance; index: number } | null = null;
+let currentContexts = new Map<Context<unknown>, unknown>();
+
+function nextSlot<T>(init: () => T): { slot: T; root: HeadlessRoot } | undefined {
+  if (!current) return undefined;
+  const { instance } = current;
+  const index = current.index++;
+  if (index >= instance.slots.length) instance.slots.push(init());
+  return { slot: instance.slots[index], root: current.root };
+}
+
+function depsChanged(prev: Deps, next: Deps): boolean {
+  if (!prev || !next || prev.length !== next.length) return true;
+  return next.some((value, i) => !Object.is(value, prev[i]));
+}
+
+// Outside a render (tools, module top level) hooks return their initial values
+
+export function useState<T>(initial: T | (() => T)): [T, (value: T | ((prev: T) => T)) => void] {
+  return useReducer(
+    (state: T, action: T | ((prev: T) => T)) =>
+      typeof action === "function" ? (action as (prev: T) => T)(state) : action,
+    initial,
+    (init) => (typeof init === "function" ? (init as () => T)() : init)
+  );
+}
+
+export function useReducer<S, A, I = S>(
+  reducer: (state: S, action: A) => S,
+  initialArg: I,
+  init?: (arg: I) => S
+): [S, (action: A) => void] {
+  const initialState = () => (init ? init(initialArg) : (initialArg as unknown as S));
+  const hook = nextSlot(() => ({
+    state: undefined as S,
+    reducer,
+    dispatch: undefined as unknown as (action: A) => void,
+    initialized: false,
+  }));
+  if (!hook) return [initialState(), () => {}];
+  const { slot, root } = hook;
+  if (!slot.initialized) {
+    slot.state = initialState();
+    slot.initialized = true;
+    slot.dispatch = (action: A) => {
+      const next = slot.reducer(slot.state, action);
+      if (Object.is(next, slot.state)) return;
+      slot.state = next;
+      root.scheduleUpdate();
+    };
+  }
+  slot.reducer = reducer;
+  return [slot.state, slot.dispatch];
+}
+
+export function useRef<T>(initial: T): { current: T } {
+  const hook = nextSlot(() => ({ current: initial }));
+  return hook ? hook.slot : { current: initial };
+}
+
+export function useMemo<T>(fn: () => T, deps: Deps): T {
+  const hook = nextSlot(() => ({ deps: undefined as Deps, value: undefined as T, computed: false }));
+  if (!hook) return fn();
+  const { slot } = hook;
+  if (!slot.computed || depsChanged(slot.deps, deps)) {
+    slot.value = fn();
+    slot.deps = deps;
+    slot.computed = true;
+  }
+  return slot.value;
+}
+
+export function useCallback<T>(fn: T, deps: Deps): T {
+  return useMemo(() => fn, deps);
+}
+
+export function useEffect(effect: () => void | (() => void), deps?: Deps): void {
+  const hook = nextSlot<EffectSlot>(() => ({}));
+  if (!hook || !current) return;
+  const { slot, root } = hook;
+  const instance = current.instance;
+  if (slot.cleanup === undefined && slot.deps === undefined) {
+    instance.unmount.push(() => slot.cleanup?.());
+  } else if (!depsChanged(slot.deps, deps)) {
+    return;
+  }
+  slot.deps = deps ?? [Symbol()];
+  root.queueEffect(() => {
+    slot.cleanup?.();
+    const cleanup = effect();
+    slot.cleanup = typeof cleanup === "function" ? cleanup : () => {};
+  });
+}
+
+export function useContext<T>(context: Context<T>): T {
+  return currentContexts.has(context as Context<unknown>)
+    ? (currentContexts.get(context as Context<unknown>) as T)
+    : context.defaultValue;
+}
+
+export function useSyncExternalStore<T>(
+  subscribe: (onChange: () => void) => () => void,
+  getSnapshot: () => T
+): T {
+  const hook = nextSlot(() => ({
+    subscribe: undefined as unknown,
+    unsubscribe: undefined as (() => void) | undefined,
+  }));
+  if (!hook || !current) return getSnapshot();
+  const { slot, root } = hook;
+  if (slot.subscribe !== subscribe) {
+    slot.unsubscribe?.();
+    if (slot.subscribe === undefined) current.instance.unmount.push(() => slot.unsubscribe?.());
+    slot.subscribe = subscribe;
+    let snapshot = getSnapshot();
+    slot.unsubscribe = subscribe(() => {
+      const next = getSnapshot();
+      if (Object.is(next, snapshot)) return;
+      snapshot = next;
+      root.scheduleUpdate();
+    });
+  }
+  return getSnapshot();
+}
+
+let nextId = 0;
+
+export function useId(): string {
+  return useMemo(() => `:r${nextId++}:`, []);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/** Guards against components that update state on every render. */
+const MAX_RENDERS = 1000;
+
+class HeadlessRoot {
+  private instances = new Map<string, ComponentInstance>();
+  private visited = new Set<string>();
+  private effects: Array<() => void> = [];
+  private dirty = false;
+  private wake?: () => void;
+  renders = 0;
+
+  constructor(private element: unknown) {}
+
+  scheduleUpdate() {
+    this.dirty = true;
+    this.wake?.();
+  }
+
+  queueEffect(effect: () => void) {
+    this.effects.push(effect);
+  }
+
+  /** Render the whole tree, then run the effects it queued. */
+  render(): RenderedNode[] {
+    if (++this.renders > MAX_RENDERS) {
+      throw new Error("Too many re-renders: the view never stopped updating its state");
+    }
+    this.dirty = false;
+    this.visited.clear();
+    currentContexts = new Map();
+    const tree = this.renderNode(this.element, "0");
+
+    for (const [path, instance] of this.instances) {
+      if (!this.visited.has(path)) {
+        this.instances.delete(path);
+        for (const cleanup of instance.unmount) cleanup();
+      }
+    }
+    const effects = this.effects;
+    this.effects = [];
+    for (const effect of effects) effect();
+    return tree;
+  }
+
+  /** Resolves true on the next state update, false after `ms`. */
+  waitForUpdate(ms: number, signal?: AbortSignal): Promise<boolean> {
+    if (this.dirty) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      const done = (updated: boolean) => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.wake = undefined;
+        resolve(updated);
+      };
+      const onAbort = () => done(false);
+      const timer = setTimeout(() => done(false), Math.max(ms, 0));
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.wake = () => done(true);
+    });
+  }
+
+  unmountAll() {
+    for (const instance of this.instances.values()) {
+      for (const cleanup of instance.unmount) {
+        try {
+          cleanup();
+        } catch {
+          // The view is being discarded
+        }
+      }
+    }
+    this.instances.clear();
+  }
+
+  private renderNode(node: unknown, path: string): RenderedNode[] {
+    if (node === null || node === undefined || typeof node === "boolean") return [];
+    if (typeof node === "string" || typeof node === "number") return [String(node)];
+    if (Array.isArray(node)) {
+      return node.flatMap((child, i) =>
+        this.renderNode(child, `${path}.${isValidElement(child) && child.key !== null ? `k${child.key}` : i}`)
+      );
+    }
+    if (!isValidElement(node)) return [];
+
+    const { type, props } = node;
+    if (type === FRAGMENT) return this.renderNode(props.children, path);
+
+    if ((type as any)?.$$typeof === PROVIDER) {
+      const context = (type as any).context as Context<unknown>;
+      const outer = currentContexts;
+      currentContexts = new Map(outer).set(context, props.value);
+      try {
+        return this.renderNode(props.children, path);
+      } finally {
+        currentContexts = outer;
+      }
+    }
+
+    const name = hostName(type);
+    if (name !== undefined) return [this.renderHost(name, props, path)];
+
+    if (typeof type === "function") {
+      const componentPath = `${path}:${type.name || "anonymous"}`;
+      const rendered = (type as any).prototype?.isReactComponent
+        ? new (type as any)(props).render()
+        : this.callComponent(type as (props: unknown) => unknown, props, componentPath);
+      return this.renderNode(rendered, componentPath);
+    }
+    return [];
+  }
+
+  private callComponent(
+    fn: (props: unknown) => unknown,
+    props: Record<string, any>,
+    path: string
+  ): unknown {
+    let instance = this.instances.get(path);
+    if (!instance) {
+      instance = { slots: [], unmount: [] };
+      this.instances.set(path, instance);
+    }
+    this.visited.add(path);
+    const outer = current;
+    current = { root: this, instance, index: 0 };
+    try {
+      return fn(props);
+    } finally {
+      current = outer;
+    }
+  }
+
+  private renderHost(component: string, props: Record<string, any>, path: string): HostNode {
+    const rendered: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(props)) {
+      if (key === "children") continue;
+      // Actions only matter to someone pressing keys
+      if (key === "actions") continue;
+      rendered[key] = isValidElement(value) ? this.renderNode(value, `${path}@${key}`)[0] : value;
+    }
+    return { component, props: rendered, children: this.renderNode(props.children, `${path}/`) };
+  }
+}
+
+export interface RenderViewOptions {
+  /** How long a view that is not loading must stay unchanged to be settled */
+  quietMs?: number;
+  /** Give up waiting for a loading view after this long */
+  maxWaitMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface RenderedView {
+  nodes: RenderedNode[];
+  /** The view still reported `isLoading` when rendering stopped */
+  loading: boolean;
+}
+
+function isLoading(nodes: RenderedNode[]): boolean {
+  return nodes.some((n) => typeof n !== "string" && n.props.isLoading === true);
+}
+
+/**
+ * Render an element tree until it settles: no longer `isLoading` and no
+ * state updates for `quietMs`. Effects are cleaned up before returning.
+ */
+export async function renderView(
+  element: unknown,
+  options: RenderViewOptions = {}
+): Promise<RenderedView> {
+  const { quietMs = 250, maxWaitMs = 30_000, signal } = options;
+  const deadline = Date.now() + maxWaitMs;
+  const root = new HeadlessRoot(element);
+  try {
+    let nodes = root.render();
+    while (!signal?.aborted) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      const wait = isLoading(nodes) ? remaining : Math.min(quietMs, remaining);
+      if (!(await root.waitForUpdate(wait, signal))) break;
+      // Batch updates made in the same tick into one render
+      await Promise.resolve();
+      nodes = root.render();
+    }
+    return { nodes, loading: isLoading(nodes) };
+  } finally {
+    root.unmountAll();
+  }
+}
+
+// ============================================================================
+// Module shapes for the shims
+// ============================================================================
+
+const noop = () => {};
+
+/** The `react` module as extensions import it. */
+export const React = {
+  createElement,
+  cloneElement,
+  isValidElement,
+  createContext,
+  Children,
+  Component,
+  PureComponent: Component,
+  Fragment: FRAGMENT,
+  StrictMode: FRAGMENT,
+  Suspense: FRAGMENT,
+  memo: <T>(component: T) => component,
+  forwardRef: (render: (props: unknown, ref: unknown) => unknown) =>
+    Object.defineProperty((props: unknown) => render(props, null), "name", {
+      value: (render as any).name || "ForwardRef",
+    }),
+  createRef: () => ({ current: null }),
+  startTransition: (fn: () => void) => fn(),
+  useState,
+  useReducer,
+  useRef,
+  useMemo,
+  useCallback,
+  useEffect,
+  useLayoutEffect: useEffect,
+  useInsertionEffect: useEffect,
+  useContext,
+  useSyncExternalStore,
+  useId,
+  useTransition: () => [false, (fn: () => void) => fn()] as const,
+  useDeferredValue: <T>(value: T) => value,
+  useImperativeHandle: noop,
+  useDebugValue: noop,
+};
+
+/** `react/jsx-runtime` and `react/jsx-dev-runtime`. */
+export const JsxRuntime = { jsx, jsxs: jsx, jsxDEV: jsx, Fragment: FRAGMENT };
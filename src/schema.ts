@@ -0,0 +1,241 @@
+/**
+ * Minimal JSON Schema validation for tool input.
+ *
+ * Covers the subset of JSON Schema that Raycast tool manifests use:
+ * types, required, enum/const, formats, string/number/array bounds,
+ * nested objects and arrays, and anyOf/oneOf. Missing properties that
+ * declare a `default` are filled in before validation.
+ */
+
+export interface SchemaViolation {
+  /** Dotted path to the offending value, e.g. `filters.labels[0]` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  violations: SchemaViolation[];
+  /** Input with schema defaults applied */
+  value: Record<string, unknown>;
+}
+
+type Schema = Record<string, any>;
+
+const FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  time: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function formatValue(value: unknown): string {
+  const json = JSON.stringify(value);
+  return json === undefined ? String(value) : json.slice(0, 80);
+}
+
+function checkFormat(value: string, format: string): boolean {
+  if (format === "uri" || format === "url") {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  const pattern = FORMATS[format];
+  // Unknown formats are annotations only
+  return pattern ? pattern.test(value) : true;
+}
+
+/** Whether the value matches, or undefined if the pattern is not a valid regex. */
+function matchesPattern(value: string, pattern: string): boolean | undefined {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+  return regex.test(value);
+}
+
+/**
+ * Fill missing object properties from their schema `default`, recursively.
+ * Returns a new value; the input is never mutated.
+ */
+export function applyDefaults(schema: Schema, value: unknown): unknown {
+  if (!schema || typeof schema !== "object") return value;
+
+  if (value === undefined && schema.default !== undefined) {
+    return structuredClone(schema.default);
+  }
+
+  if (typeOf(value) === "object" && schema.properties) {
+    const result: Record<string, unknown> = { ...(value as object) };
+    for (const [key, propSchema] of Object.entries<Schema>(schema.properties)) {
+      const filled = applyDefaults(propSchema, result[key]);
+      if (filled !== undefined) result[key] = filled;
+    }
+    return result;
+  }
+
+  if (Array.isArray(value) && schema.items && !Array.isArray(schema.items)) {
+    return value.map((item) => applyDefaults(schema.items, item));
+  }
+
+  return value;
+}
+
+function validateValue(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (!schema || typeof schema !== "object") return;
+  const at = path || "(input)";
+
+  if (schema.anyOf || schema.oneOf) {
+    const branches: Schema[] = schema.anyOf || schema.oneOf;
+    const matching = branches.filter((branch) => {
+      const branchViolations: SchemaViolation[] = [];
+      validateValue(branch, value, path, branchViolations);
+      return branchViolations.length === 0;
+    }).length;
+    if (matching === 0 || (schema.oneOf && matching > 1)) {
+      violations.push({
+        path: at,
+        message: schema.oneOf && matching > 1
+          ? "must match exactly one of the allowed schemas"
+          : "does not match any of the allowed schemas",
+      });
+      return;
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      violations.push({
+        path: at,
+        message: `must be of type ${types.join(" | ")} (got ${typeOf(value)})`,
+      });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    violations.push({ path: at, message: `must equal ${formatValue(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum)) {
+    const allowed = schema.enum.map((v: unknown) => JSON.stringify(v));
+    if (!allowed.includes(JSON.stringify(value))) {
+      violations.push({
+        path: at,
+        message: `must be one of ${allowed.join(", ")} (got ${formatValue(value)})`,
+      });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path: at, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path: at, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern !== undefined) {
+      const matched = matchesPattern(value, schema.pattern);
+      if (matched === undefined) {
+        violations.push({ path: at, message: `cannot be checked: the schema's pattern ${schema.pattern} is not a valid regular expression` });
+      } else if (!matched) {
+        violations.push({ path: at, message: `must match pattern ${schema.pattern}` });
+      }
+    }
+    if (schema.format !== undefined && !checkFormat(value, schema.format)) {
+      violations.push({ path: at, message: `must be a valid ${schema.format} (got ${formatValue(value)})` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      violations.push({ path: at, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      violations.push({ path: at, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path: at, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path: at, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => validateValue(schema.items, item, joinPath(path, i), violations));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, Schema> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        violations.push({ path: joinPath(path, key), message: "is required" });
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (propValue === undefined) continue;
+      if (key in properties) {
+        validateValue(properties[key], propValue, joinPath(path, key), violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: joinPath(path, key), message: "is not an allowed property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        validateValue(schema.additionalProperties, propValue, joinPath(path, key), violations);
+      }
+    }
+  }
+}
+
+/**
+ * Validate tool input against a tool's JSON Schema, filling defaults first.
+ */
+export function validateInput(
+  schema: Record<string, unknown>,
+  input: Record<string, unknown>
+): ValidationResult {
+  const value = applyDefaults(schema, input) as Record<string, unknown>;
+  const violations: SchemaViolation[] = [];
+  validateValue(schema, value, "", violations);
+  return { valid: violations.length === 0, violations, value };
+}
@@ -0,0 +1,144 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { ExtensionEntry } from "./discovery.js";
+import { withFileLock } from "./file-store.js";
+import { readVaultFile, writeVaultFile } from "./vault.js";
+
+/**
+ * raybridge's secret store and the references preferences.json may hold
+ * instead of plaintext values:
+ * - ${secret:NAME}  a value from the encrypted secret store
+ * - ${env:NAME}     an environment variable
+ * - ${file:PATH}    the contents of a file, without the trailing newline
+ *
+ * The store is encrypted like a passphrase vault, with
+ * RAYBRIDGE_VAULT_PASSPHRASE. Error messages name references, never values.
+ */
+
+const SECRETS_PATH = join(homedir(), ".config", "raybridge", "secrets.enc");
+
+const REFERENCE = /\$\{(secret|env|file):([^}]+)\}/g;
+
+export function getSecretsPath(): string {
+  return SECRETS_PATH;
+}
+
+export async function loadSecrets(): Promise<Record<string, string>> {
+  if (!existsSync(SECRETS_PATH)) return {};
+  return JSON.parse(await readVaultFile(SECRETS_PATH));
+}
+
+/** Read-modify-write the store under a file lock. */
+function updateSecrets(update: (secrets: Record<string, string>) => void): Promise<void> {
+  return withFileLock(SECRETS_PATH, async () => {
+    const secrets = await loadSecrets();
+    update(secrets);
+    await writeVaultFile(SECRETS_PATH, JSON.stringify(secrets));
+  });
+}
+
+export function setSecret(name: string, value: string): Promise<void> {
+  return updateSecrets((secrets) => {
+    secrets[name] = value;
+  });
+}
+
+/** Returns false if there was no such secret. */
+export async function removeSecret(name: string): Promise<boolean> {
+  let removed = false;
+  await updateSecrets((secrets) => {
+    removed = name in secrets;
+    delete secrets[name];
+  });
+  return removed;
+}
+
+/** Whether a value holds at least one reference rather than only literal text. */
+export function hasReference(value: string): boolean {
+  return value.search(REFERENCE) !== -1;
+}
+
+/** Password-type preferences stored as a literal value rather than a reference. */
+export function plaintextPasswords(
+  prefs: Record<string, Record<string, unknown>>,
+  extensions: ExtensionEntry[]
+): Array<{ extension: string; preference: string }> {
+  const found: Array<{ extension: string; preference: string }> = [];
+  for (const ext of extensions) {
+    const stored = prefs[ext.extensionName] ?? {};
+    const declared = [ext.preferences, ...Object.values(ext.commandPreferences)].flat();
+    const passwords = new Set(declared.filter((p) => p.type === "password").map((p) => p.name));
+    for (const name of passwords) {
+      const value = stored[name];
+      if (typeof value === "string" && value !== "" && !hasReference(value)) {
+        found.push({ extension: ext.extensionName, preference: name });
+      }
+    }
+  }
+  return found;
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+async function resolveReference(
+  kind: string,
+  name: string,
+  secrets: () => Promise<Record<string, string>>
+): Promise<string> {
+  if (kind === "env") {
+    const value = process.env[name];
+    if (value === undefined) throw new Error(`environment variable ${name} is not set`);
+    return value;
+  }
+  if (kind === "file") {
+    try {
+      return (await readFile(expandHome(name), "utf-8")).replace(/\r?\n$/, "");
+    } catch (err: any) {
+      throw new Error(`cannot read ${name} (${err?.code || "error"})`);
+    }
+  }
+  const value = (await secrets())[name];
+  if (value === undefined) throw new Error(`secret ${name} is not in the secret store`);
+  return value;
+}
+
+/**
+ * Replace references in string preference values. A preference whose
+ * reference cannot be resolved is left out, with a warning naming it.
+ */
+export async function resolvePreferenceReferences(
+  prefs: Record<string, Record<string, unknown>>
+): Promise<Record<string, Record<string, unknown>>> {
+  let store: Promise<Record<string, string>> | undefined;
+  const secrets = () => (store ??= loadSecrets());
+
+  const resolved: Record<string, Record<string, unknown>> = {};
+  for (const [extName, extPrefs] of Object.entries(prefs)) {
+    resolved[extName] = {};
+    for (const [key, value] of Object.entries(extPrefs ?? {})) {
+      if (typeof value !== "string" || !value.includes("${")) {
+        resolved[extName][key] = value;
+        continue;
+      }
+      try {
+        let result = "";
+        let last = 0;
+        for (const match of value.matchAll(REFERENCE)) {
+          result += value.slice(last, match.index);
+          result += await resolveReference(match[1], match[2], secrets);
+          last = match.index! + match[0].length;
+        }
+        resolved[extName][key] = result + value.slice(last);
+      } catch (err: any) {
+        console.error(
+          `raybridge: Could not resolve preference ${extName}.${key}: ${err?.message || err}`
+        );
+      }
+    }
+  }
+  return resolved;
+}
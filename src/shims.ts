@@ -1,19 +1,24 @@
 import { createRequire } from "node:module";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { TokenSet } from "./auth.js";
+import * as localStorage from "./local-storage.js";
+import type { StorageValue } from "./local-storage.js";
+import { ExtensionCache, type CacheOptions } from "./cache.js";
+import { currentContext } from "./context.js";
+import { resolvePreferenceValues } from "./preferences.js";
+import { PKCEClient, recordTokenRequest } from "./oauth.js";
+import { HOST_COMPONENT, JsxRuntime, React } from "./react.js";
+import { Toast, showHUD, showToast } from "./toast.js";
+import { AI } from "./ai.js";
+import { raycastUtils, runAppleScript } from "./raycast-utils.js";
+import { isProbe, traceStubAccess } from "./coverage.js";
 
 const require = createRequire(import.meta.url);
 
 let installed = false;
 let preferences: Record<string, Record<string, unknown>> = {};
 
-/** Raycast DB OAuth tokens keyed by extension name. */
-let raycastTokens = new Map<string, TokenSet[]>();
-
-export function setRaycastTokens(tokens: Map<string, TokenSet[]>) {
-  raycastTokens = tokens;
-}
+export { setRaycastTokens, getExtensionTokens } from "./oauth.js";
 
 export function setPreferences(
   prefs: Record<string, Record<string, unknown>>
@@ -21,13 +26,11 @@ export function setPreferences(
   preferences = prefs;
 }
 
-/** Current extension context — set before each tool execution. */
-let currentExtension = "";
-let currentExtensionDir = "";
-
-export function setCurrentExtension(name: string, extensionDir: string) {
-  currentExtension = name;
-  currentExtensionDir = extensionDir;
+/** Stored preferences for one extension (used to seed isolated workers). */
+export function getExtensionPreferences(
+  extensionName: string
+): Record<string, unknown> {
+  return preferences[extensionName] || {};
 }
 
 // ============================================================================
@@ -43,55 +46,108 @@ const UI_COMPONENTS = new Set([
 
 /** Known async function names that should return async () => undefined */
 const ASYNC_FUNCTIONS = new Set([
-  "showToast", "closeMainWindow", "popToRoot", "open", "showHUD",
-  "trash", "showInFinder", "confirmAlert", "getSelectedText",
+  "closeMainWindow", "popToRoot", "open",
+  "trash", "showInFinder", "getSelectedText",
   "getSelectedFinderItems", "getFrontmostApplication", "launchCommand",
-  "updateCommandMetadata", "captureException", "runAppleScript",
+  "updateCommandMetadata", "captureException",
 ]);
 
 /**
- * Creates an auto-stub for any unknown @raycast/api export.
+ * Thrown in strict shim mode when a tool calls an auto-stubbed function,
+ * which would otherwise return undefined and let the tool carry on with a
+ * plausible but wrong result.
+ */
+export class UnsupportedRaycastApiError extends Error {
+  module: string;
+  api: string;
+
+  constructor(module: string, api: string) {
+    super(
+      `${api} from ${module} isn't available headlessly in raybridge ` +
+        `(strict shims are on, so the call fails instead of returning undefined)`
+    );
+    this.name = "UnsupportedRaycastApiError";
+    this.module = module;
+    this.api = api;
+  }
+}
+
+/**
+ * A call to an auto-stubbed function. Returns normally unless the call is
+ * strict; the first failure is kept on the context so the call still fails
+ * if the tool catches it.
+ */
+function callStub(module: string, api: string): void {
+  const context = currentContext();
+  if (!context.strictShims) return;
+  const err = new UnsupportedRaycastApiError(module, api);
+  context.unsupportedApi ??= err;
+  throw err;
+}
+
+/**
+ * Stubs whose accesses aren't traced for coverage: views the headless
+ * renderer handles, and values that only affect how things look.
+ */
+const UNTRACED = new Set(["List", "Grid", "Detail", "Icon", "Color", "Keyboard"]);
+
+/**
+ * Creates an auto-stub for any unknown export of a Raycast module.
  * The stub behavior depends on the access pattern:
  * - UI components: function returning null with nested component stubs
  * - Async functions: async no-op returning undefined
  * - Enums/constants: Proxy returning the property name as string
  * - Nested namespaces: recursive Proxy
+ * Accesses to the stub and anything nested in it are traced for coverage,
+ * and calling a stubbed function throws in strict mode.
  */
-function createAutoStub(name: string): unknown {
+function createAutoStub(module: string, name: string): unknown {
+  const traced = !UNTRACED.has(name);
+  if (traced) traceStubAccess(module, name);
+
   // UI components: return function with nested component stubs
   if (UI_COMPONENTS.has(name) || /^[A-Z]/.test(name)) {
-    return createUIComponentStub(name);
+    return createUIComponentStub(module, name, traced);
   }
 
   // Known async functions
   if (ASYNC_FUNCTIONS.has(name)) {
-    return async () => undefined;
+    return async () => callStub(module, name);
   }
 
   // Functions starting with lowercase: assume sync function returning undefined
   if (/^[a-z]/.test(name)) {
-    return () => undefined;
+    return () => callStub(module, name);
   }
 
   // Default: return an enum-like Proxy that returns property names as strings
-  return createEnumProxy(name);
+  return createEnumProxy(module, name);
 }
 
 /**
  * Creates a UI component stub - a function returning null with nested stubs
- * for sub-components (e.g., List.Item, Form.TextField)
+ * for sub-components (e.g., List.Item, Form.TextField). The headless
+ * renderer keeps stubs in the tree as host components named by their path.
  */
-function createUIComponentStub(_name: string): unknown {
+function createUIComponentStub(module: string, name: string, traced: boolean): unknown {
   const componentFn = () => null;
 
   return new Proxy(componentFn, {
     get(target, prop) {
       if (prop === "prototype") return target.prototype;
+      if (prop === HOST_COMPONENT) return name;
       if (typeof prop === "symbol") return undefined;
       // Sub-components are also UI stubs
-      return createUIComponentStub(prop as string);
+      const path = `${name}.${prop}`;
+      if (traced) traceStubAccess(module, path);
+      return createUIComponentStub(module, path, traced);
     },
     apply() {
+      // Calling a lowercase member (e.g. WindowManagement.getActiveWindow)
+      // is a function call rather than a component render; coercion
+      // (toString, valueOf) is neither
+      const member = name.slice(name.lastIndexOf(".") + 1);
+      if (/^[a-z]/.test(member) && !isProbe(name)) callStub(module, name);
       return null;
     },
   });
@@ -101,15 +157,16 @@ function createUIComponentStub(_name: string): unknown {
  * Creates an enum-like Proxy that returns property names as strings.
  * Handles patterns like Toast.Style.Success -> "Success"
  */
-function createEnumProxy(_name: string): unknown {
+function createEnumProxy(module: string, name: string): unknown {
   return new Proxy({}, {
     get(_, prop) {
       if (typeof prop === "symbol") return undefined;
       // Nested access returns another proxy or the string value
       const value = prop as string;
+      traceStubAccess(module, `${name}.${value}`);
       // If it looks like an enum value (PascalCase), return the string
       if (/^[A-Z]/.test(value)) {
-        return createEnumProxy(value);
+        return createEnumProxy(module, `${name}.${value}`);
       }
       return value;
     },
@@ -123,14 +180,15 @@ function createEnumProxy(_name: string): unknown {
 /** environment - runtime values for the current extension context */
 const environmentDescriptor = {
   get() {
+    const { extensionName, extensionDir, command, commandMode } = currentContext();
     return {
-      launchType: "background",
-      commandMode: "no-view",
-      commandName: "mcp-bridge",
-      extensionName: currentExtension,
+      launchType: command ? "userInitiated" : "background",
+      commandMode: commandMode ?? "no-view",
+      commandName: command || "mcp-bridge",
+      extensionName,
       isDevelopment: false,
-      assetsPath: currentExtensionDir
-        ? join(currentExtensionDir, "assets")
+      assetsPath: extensionDir
+        ? join(extensionDir, "assets")
         : "",
       supportPath: join(
         homedir(),
@@ -138,7 +196,7 @@ const environmentDescriptor = {
         "Application Support",
         "com.raycast.macos",
         "extensions",
-        currentExtension || "mcp-bridge"
+        extensionName || "mcp-bridge"
       ),
       textSize: "medium",
       theme: "dark",
@@ -151,93 +209,74 @@ const environmentDescriptor = {
   enumerable: true,
 };
 
-/** Cache - in-memory Map-based cache */
-class Cache {
-  private store = new Map<string, string>();
-  get(key: string) { return this.store.get(key); }
-  set(key: string, value: string) { this.store.set(key, value); }
-  remove(key: string) { this.store.delete(key); }
-  delete(key: string) { this.store.delete(key); }
-  has(key: string) { return this.store.has(key); }
-  clear() { this.store.clear(); }
-  getSession(key: string) { return this.store.get(`session:${key}`); }
-  setSession(key: string, value: string) { this.store.set(`session:${key}`, value); }
-}
+/** Session values live in memory for the life of the server process */
+const sessionValues = new Map<string, string>();
 
-/** OAuth.PKCEClient - token management from Raycast DB */
-class PKCEClient {
-  constructor(_opts?: { providerName?: string }) {}
-  authorizationRequest(opts: {
-    endpoint: string;
-    clientId: string;
-    scope: string;
-    extraParameters?: Record<string, string>;
-  }) {
-    const url = new URL(opts.endpoint);
-    url.searchParams.set("client_id", opts.clientId);
-    url.searchParams.set("scope", opts.scope);
-    url.searchParams.set("response_type", "code");
-    url.searchParams.set(
-      "redirect_uri",
-      "https://raycast.com/redirect?packageName=mcp-bridge"
-    );
-    url.searchParams.set("code_challenge_method", "S256");
-    url.searchParams.set("code_challenge", "placeholder");
-    if (opts.extraParameters) {
-      for (const [k, v] of Object.entries(opts.extraParameters)) {
-        url.searchParams.set(k, v);
-      }
-    }
-    return {
-      codeChallenge: "placeholder",
-      codeVerifier: "placeholder",
-      state: "placeholder",
-      toURL: () => url.toString(),
-    };
-  }
-  async authorize() {
-    return { authorizationCode: "" };
-  }
-  async getTokens() {
-    const extName = currentExtension;
-    const dbSets = raycastTokens.get(extName);
-    if (dbSets && dbSets.length > 0) {
-      const ts = dbSets[0];
-      return {
-        accessToken: ts.accessToken,
-        refreshToken: ts.refreshToken,
-        idToken: ts.idToken,
-        isExpired: () => {
-          if (!ts.expiresIn || !ts.updatedAt) return false;
-          const updatedMs = typeof ts.updatedAt === "string"
-            ? new Date(ts.updatedAt).getTime()
-            : ts.updatedAt;
-          return Date.now() > updatedMs + ts.expiresIn * 1000;
-        },
-      };
-    }
-    return undefined;
+/** Cache - Raycast Cache semantics, persisted per extension on disk */
+class Cache extends ExtensionCache {
+  private extensionName: string;
+
+  constructor(options?: CacheOptions) {
+    const { extensionName } = currentContext();
+    super(extensionName, options);
+    this.extensionName = extensionName;
   }
-  async setTokens(_response: Record<string, unknown>) {
-    // Token persistence handled by Raycast's encrypted DB
+
+  delete(key: string) { return this.remove(key); }
+  getSession(key: string) {
+    return sessionValues.get(`${this.extensionName}:${key}`);
   }
-  async removeTokens() {
-    console.error(`raybridge: removeTokens called for ${currentExtension} (no-op)`);
+  setSession(key: string, value: string) {
+    sessionValues.set(`${this.extensionName}:${key}`, value);
   }
 }
 
-/** LocalStorage - async stubs */
+/** useNavigation - nothing to navigate to without a UI */
+function useNavigation() {
+  return { push: () => {}, pop: () => {} };
+}
+
+interface AlertActionOptions {
+  title?: string;
+  style?: string;
+  onAction?: () => void | Promise<void>;
+}
+
+/**
+ * confirmAlert - asks the user through the MCP client, then runs the chosen
+ * action's onAction, since many extensions act there rather than on the
+ * returned boolean
+ */
+async function confirmAlert(options: {
+  title: string;
+  message?: string;
+  primaryAction?: AlertActionOptions;
+  dismissAction?: AlertActionOptions;
+}): Promise<boolean> {
+  const { client } = currentContext();
+  const { confirmed } = client?.confirm
+    ? await client.confirm({ title: options.title, message: options.message })
+    : { confirmed: false };
+  const action = confirmed ? options.primaryAction : options.dismissAction;
+  await action?.onAction?.();
+  return confirmed;
+}
+
+/** LocalStorage - persisted per extension under the raybridge data dir */
 const LocalStorage = {
-  getItem: async (_key: string) => undefined,
-  setItem: async (_key: string, _value: string) => {},
-  removeItem: async (_key: string) => {},
-  allItems: async () => ({}),
-  clear: async () => {},
+  getItem: (key: string) => localStorage.getItem(currentContext().extensionName, key),
+  setItem: (key: string, value: StorageValue) =>
+    localStorage.setItem(currentContext().extensionName, key, value),
+  removeItem: (key: string) =>
+    localStorage.removeItem(currentContext().extensionName, key),
+  allItems: () => localStorage.allItems(currentContext().extensionName),
+  clear: () => localStorage.clearItems(currentContext().extensionName),
 };
 
-/** getPreferenceValues - reads from preferences map */
+/** getPreferenceValues - stored values over manifest defaults, typed as declared */
 function getPreferenceValues<T = Record<string, unknown>>(): T {
-  return { ...(preferences[currentExtension] || {}) } as T;
+  const { extensionName, declaredPreferences = [] } = currentContext();
+  return resolvePreferenceValues(declaredPreferences, preferences[extensionName] || {}) as T;
 }
 
 /** getApplications - filesystem scan for installed apps */
@@ -264,21 +303,25 @@ async function getApplications() {
   return apps;
 }
 
-/** Clipboard - clipboard operations */
+type ClipboardContent = string | number | { text?: string; file?: string; html?: string };
+
+/**
+ * Clipboard - copied content becomes part of a command's result instead
+ * of touching the system clipboard
+ */
 const Clipboard = {
-  copy: async (_text: string) => {},
+  copy: async (content: ClipboardContent) => {
+    const text = typeof content === "object"
+      ? content.text ?? content.file ?? content.html ?? ""
+      : String(content);
+    currentContext().output?.push({ type: "clipboard", text });
+  },
   paste: async () => {},
   readText: async () => "",
   read: async () => ({ text: "" }),
   clear: async () => {},
 };
 
-/** AI - AI operations stub */
-const AI = {
-  ask: async () => "",
-  model: createEnumProxy("model"),
-};
-
 // ============================================================================
 // Explicit exports object - these take precedence over auto-stubs
 // ============================================================================
@@ -289,6 +332,8 @@ const explicitExports: Record<string, unknown> = {
   LocalStorage,
   getPreferenceValues,
   getApplications,
+  // Deprecated in @raycast/api in favour of @raycast/utils, same behaviour
+  runAppleScript,
 
   // OAuth namespace
   OAuth: {
@@ -304,9 +349,18 @@ const explicitExports: Record<string, unknown> = {
   Clipboard,
   AI,
 
-  // Toast with commonly-used Style enum
-  Toast: {
-    Style: { Success: "success", Failure: "failure", Animated: "animated" },
+  // Toasts surface as MCP progress; they and HUDs form a command's result
+  Toast,
+  showToast,
+  showHUD,
+
+  // View commands render headlessly; pushed views are never shown
+  useNavigation,
+
+  // Alerts are confirmed via MCP elicitation
+  confirmAlert,
+  Alert: {
+    ActionStyle: { Default: "default", Cancel: "cancel", Destructive: "destructive" },
   },
 
   // Image with Mask enum
@@ -316,64 +370,71 @@ const explicitExports: Record<string, unknown> = {
 };
 
 // ============================================================================
-// Proxy-based @raycast/api module
+// Proxy-based @raycast/api and @raycast/utils modules
 // ============================================================================
 
 /**
- * Creates the @raycast/api module with:
+ * Creates a Raycast module with:
  * 1. Explicit implementations for critical APIs
- * 2. Auto-generated stubs for everything else
+ * 2. Getters for values computed per call (e.g. `environment`)
+ * 3. Auto-generated stubs for everything else
  */
-function createRaycastApiProxy() {
-  const handler: ProxyHandler<typeof explicitExports> = {
+function createModuleProxy(
+  name: string,
+  explicit: Record<string, unknown>,
+  getters: Record<string, () => unknown> = {}
+): Record<string, unknown> {
+  const handler: ProxyHandler<Record<string, unknown>> = {
     get(target, prop) {
       // Handle special properties
-      if (prop === "default") return raycastApiProxy;
+      if (prop === "default") return proxy;
       if (typeof prop === "symbol") return undefined;
 
-      // Environment is a getter, handle specially
-      if (prop === "environment") {
-        return environmentDescriptor.get();
-      }
+      if (prop in getters) return getters[prop]();
 
       // Return explicit implementation if available
       if (prop in target) {
-        return target[prop as string];
+        return target[prop];
       }
 
       // Auto-stub everything else
-      return createAutoStub(prop as string);
+      return createAutoStub(name, prop);
     },
 
     has(_target, _prop) {
-      // Everything exists in @raycast/api (via auto-stub)
+      // Everything exists in the module (via auto-stub)
       return true;
     },
 
     ownKeys(target) {
       // Return explicit keys for enumeration
-      return [...Object.keys(target), "environment", "default"];
+      return [...Object.keys(target), ...Object.keys(getters), "default"];
     },
 
     getOwnPropertyDescriptor(target, prop) {
-      if (prop === "environment") {
-        return { ...environmentDescriptor, configurable: true };
+      if (typeof prop === "string" && prop in getters) {
+        return { get: getters[prop], enumerable: true, configurable: true };
       }
       if (prop === "default") {
-        return { value: raycastApiProxy, enumerable: true, configurable: true };
+        return { value: proxy, enumerable: true, configurable: true };
       }
-      if (prop in target) {
-        return { value: target[prop as string], enumerable: true, configurable: true };
+      if (typeof prop === "string" && prop in target) {
+        return { value: target[prop], enumerable: true, configurable: true };
       }
       // Auto-stubbed properties
-      return { value: createAutoStub(prop as string), enumerable: true, configurable: true };
+      return { value: createAutoStub(name, String(prop)), enumerable: true, configurable: true };
     },
   };
 
-  return new Proxy(explicitExports, handler);
+  const proxy = new Proxy(explicit, handler);
+  return proxy;
 }
 
-const raycastApiProxy = createRaycastApiProxy();
+const raycastApiProxy = createModuleProxy("@raycast/api", explicitExports, {
+  environment: environmentDescriptor.get,
+});
+
+const raycastUtilsProxy = createModuleProxy("@raycast/utils", raycastUtils);
 
 // ============================================================================
 // Module installation
@@ -385,29 +446,15 @@ export function installShims() {
 
   const shimmedModules: Record<string, unknown> = {
     "@raycast/api": raycastApiProxy,
-    react: {
-      default: { createElement: () => null, Fragment: "Fragment" },
-      createElement: () => null,
-      Fragment: "Fragment",
-      useState: () => [undefined, () => {}],
-      useEffect: () => {},
-      useMemo: (fn: () => unknown) => fn(),
-      useCallback: (fn: unknown) => fn,
-      useRef: () => ({ current: null }),
-      useSyncExternalStore: (_subscribe: unknown, getSnapshot: () => unknown) => {
-        return typeof getSnapshot === "function" ? getSnapshot() : undefined;
-      },
-    },
-    "react/jsx-runtime": {
-      jsx: () => null,
-      jsxs: () => null,
-      Fragment: "Fragment",
-    },
+    "@raycast/utils": raycastUtilsProxy,
+    react: React,
+    "react/jsx-runtime": JsxRuntime,
+    "react/jsx-dev-runtime": JsxRuntime,
   };
 
   for (const [name, exports] of Object.entries(shimmedModules)) {
-    // For @raycast/api, the proxy handles default export
-    const moduleExports = name === "@raycast/api"
+    // For the Raycast modules, the proxy handles default export
+    const moduleExports = name.startsWith("@raycast/")
       ? exports
       : { ...exports as object, default: exports };
 
@@ -425,6 +472,19 @@ export function installShims() {
     } as any;
   }
 
+  // Tie every fetch to the cancellation signal of the call that issued it,
+  // and note OAuth token endpoints for refreshing expired tokens
+  const origFetch = globalThis.fetch;
+  globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+    recordTokenRequest(input, init);
+    const { signal } = currentContext();
+    if (!signal) return origFetch(input, init);
+    return origFetch(input, {
+      ...init,
+      signal: init?.signal ? AbortSignal.any([signal, init.signal]) : signal,
+    });
+  }) as typeof fetch;
+
   const Module = require("module");
   const origResolve = Module._resolveFilename;
   Module._resolveFilename = function (
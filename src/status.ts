@@ -0,0 +1,152 @@
+import { stat, readFile } from "node:fs/promises";
+import type { TokenSet } from "./auth.js";
+import { getCredentialProviders, type ToolsConfig } from "./config.js";
+import type { CredentialFailures } from "./credentials.js";
+import type { ExtensionEntry } from "./discovery.js";
+import { accountName, isExpired } from "./oauth.js";
+import { missingPreferences } from "./preferences.js";
+import {
+  loadStoredTokens,
+  loadTokenEndpoints,
+  providerKey,
+  type StoredTokenSet,
+} from "./token-store.js";
+
+/**
+ * Auth and readiness of an extension: its OAuth token sets, required
+ * preferences from the manifest, and credential providers that failed.
+ */
+
+/**
+ * - valid: not expired (or no expiry known)
+ * - refreshable: expired, with a refresh token and a known token endpoint
+ * - expired: expired and raybridge cannot refresh it
+ */
+export type TokenState = "valid" | "refreshable" | "expired";
+
+export interface AccountStatus {
+  account: string;
+  /** raybridge's token store, or one of the credential providers */
+  source: "raybridge" | "provider";
+  state: TokenState;
+  expiresAt?: string;
+}
+
+export interface ExtensionStatus {
+  extension: string;
+  ready: boolean;
+  /** The extension's tools contain an OAuth client */
+  usesOAuth: boolean;
+  accounts: AccountStatus[];
+  /** Names of required manifest preferences without a value */
+  missingPreferences: string[];
+  /** Why the extension is not ready; empty when it is */
+  problems: string[];
+}
+
+export interface StatusInputs {
+  /** Merged preference values for the extension */
+  preferences: Record<string, unknown>;
+  /** Token sets from the credential providers */
+  tokens: TokenSet[];
+  failures?: CredentialFailures;
+  config: ToolsConfig;
+}
+
+const OAUTH_MARKERS = /PKCEClient|OAuthService|withAccessToken/;
+
+/** Whether a tool file contains an OAuth client, keyed by path and mtime */
+const oauthScans = new Map<string, boolean>();
+
+async function toolUsesOAuth(jsPath: string): Promise<boolean> {
+  try {
+    const key = `${jsPath}:${(await stat(jsPath)).mtimeMs}`;
+    let found = oauthScans.get(key);
+    if (found === undefined) {
+      found = OAUTH_MARKERS.test(await readFile(jsPath, "utf-8"));
+      oauthScans.set(key, found);
+    }
+    return found;
+  } catch {
+    return false;
+  }
+}
+
+function expiresAt(tokens: TokenSet): string | undefined {
+  if (!tokens.expiresIn || !tokens.updatedAt) return undefined;
+  return new Date(new Date(tokens.updatedAt).getTime() + tokens.expiresIn * 1000).toISOString();
+}
+
+function tokenState(tokens: TokenSet, canRefresh: boolean): TokenState {
+  if (!isExpired(tokens)) return "valid";
+  return tokens.refreshToken && canRefresh ? "refreshable" : "expired";
+}
+
+/** Compute the auth and readiness status of one extension. */
+export async function getExtensionStatus(
+  ext: ExtensionEntry,
+  inputs: StatusInputs
+): Promise<ExtensionStatus> {
+  const name = ext.extensionName;
+  const [stored, endpoints, oauthFlags] = await Promise.all([
+    loadStoredTokens(name),
+    loadTokenEndpoints(name),
+    Promise.all(ext.tools.map((t) => toolUsesOAuth(t.jsPath))),
+  ]);
+
+  const accounts: AccountStatus[] = [
+    ...stored.map((t) => ({ tokens: t, source: "raybridge" as const })),
+    ...inputs.tokens.map((t) => ({ tokens: t as StoredTokenSet, source: "provider" as const })),
+  ].map(({ tokens, source }) => ({
+    account: accountName(tokens),
+    source,
+    state: tokenState(tokens, !!endpoints[providerKey(tokens)]),
+    expiresAt: expiresAt(tokens),
+  }));
+  const usesOAuth = accounts.length > 0 || oauthFlags.some(Boolean);
+
+  const missing = missingPreferences(ext.preferences, inputs.preferences);
+
+  const problems: string[] = [];
+  if (missing.length > 0) {
+    problems.push(
+      `Missing required preferences: ${missing.map((p) => `${p.title} (${p.name})`).join(", ")}. Set them in ~/.config/raybridge/preferences.json or a credential provider`
+    );
+  }
+  if (usesOAuth && accounts.length === 0) {
+    problems.push(`Not signed in. Run \`raybridge auth ${name} <tool>\` to authorize`);
+  } else if (usesOAuth && accounts.every((a) => a.state === "expired")) {
+    problems.push(
+      `OAuth tokens have expired and cannot be refreshed. Run \`raybridge auth ${name} <tool>\` to sign in again`
+    );
+  }
+  if (problems.length > 0) {
+    // A failed provider is the likely reason something is missing
+    for (const provider of getCredentialProviders(inputs.config, name)) {
+      const failure = inputs.failures?.[provider];
+      if (failure) problems.push(`Could not load credentials from ${provider}: ${failure}`);
+    }
+  }
+
+  return {
+    extension: name,
+    ready: problems.length === 0,
+    usesOAuth,
+    accounts,
+    missingPreferences: missing.map((p) => p.name),
+    problems,
+  };
+}
+
+/** One line per fact, for the CLI and the MCP status tool. */
+export function formatExtensionStatus(status: ExtensionStatus): string {
+  const lines = [`${status.extension}: ${status.ready ? "ready" : "not ready"}`];
+  for (const a of status.accounts) {
+    const expiry = a.expiresAt ? `, expires ${a.expiresAt}` : "";
+    lines.push(`  account ${a.account} (${a.source}): ${a.state}${expiry}`);
+  }
+  for (const problem of status.problems) {
+    lines.push(`  - ${problem}`);
+  }
+  return lines.join("\n");
+}
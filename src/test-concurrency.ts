@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Concurrency test for per-call extension context
+ *
+ * Creates two throwaway extensions in a temp directory and runs many of
+ * their tools at once, interleaved across awaits and timers. Every call
+ * must see its own extension's preferences, environment and OAuth tokens,
+ * never the other one's.
+ */
+
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { executeTool } from "./loader.js";
+import { setPreferences, setRaycastTokens } from "./shims.js";
+
+const EXTENSIONS = ["alpha", "beta"];
+const CALLS_PER_EXTENSION = 25;
+
+// Reads every context-dependent shim before and after yielding to the
+// event loop, so a leaked context shows up as a mismatch
+const TOOL_SOURCE = `
+const { environment, getPreferenceValues, OAuth } = require("@raycast/api");
+
+async function snapshot() {
+  const tokens = await new OAuth.PKCEClient({ providerName: "test" }).getTokens();
+  return {
+    extensionName: environment.extensionName,
+    pref: getPreferenceValues().owner,
+    token: tokens && tokens.accessToken,
+  };
+}
+
+module.exports.default = async function (input) {
+  const before = await snapshot();
+  await new Promise((resolve) => setTimeout(resolve, input.delay));
+  await Promise.resolve();
+  const after = await snapshot();
+  return { before, after };
+};
+`;
+
+async function createExtension(root: string, name: string): Promise<string> {
+  const extDir = join(root, name);
+  await mkdir(join(extDir, "tools"), { recursive: true });
+  await writeFile(join(extDir, "tools", "whoami.js"), TOOL_SOURCE);
+  return extDir;
+}
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-concurrency-"));
+  let failures = 0;
+
+  try {
+    const dirs = new Map<string, string>();
+    for (const name of EXTENSIONS) {
+      dirs.set(name, await createExtension(root, name));
+    }
+
+    setPreferences(
+      Object.fromEntries(EXTENSIONS.map((name) => [name, { owner: name }]))
+    );
+    setRaycastTokens(
+      new Map(EXTENSIONS.map((name) => [name, [{ accessToken: `token-${name}` }]]))
+    );
+
+    const calls: Array<Promise<{ expected: string; result: string }>> = [];
+    for (let i = 0; i < CALLS_PER_EXTENSION; i++) {
+      for (const name of EXTENSIONS) {
+        const extDir = dirs.get(name)!;
+        const delay = Math.floor(Math.random() * 20);
+        calls.push(
+          executeTool(join(extDir, "tools", "whoami.js"), { delay }, name, extDir)
+            .then((result) => ({ expected: name, result }))
+        );
+      }
+    }
+
+    for (const { expected, result } of await Promise.all(calls)) {
+      const { before, after } = JSON.parse(result);
+      for (const seen of [before, after]) {
+        const ok =
+          seen.extensionName === expected &&
+          seen.pref === expected &&
+          seen.token === `token-${expected}`;
+        if (!ok) {
+          failures++;
+          console.log(`❌ ${expected}: saw ${JSON.stringify(seen)}`);
+        }
+      }
+    }
+
+    const total = calls.length;
+    if (failures === 0) {
+      console.log(`✅ ${total} concurrent calls each saw only their own extension context`);
+    } else {
+      console.log(`\n❌ ${failures} context leak(s) across ${total} concurrent calls`);
+    }
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
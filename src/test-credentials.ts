@@ -0,0 +1,219 @@
+#!/usr/bin/env bun
+/**
+ * Credential provider, vault and bundle test
+ *
+ * Loads preferences and OAuth tokens from the env, vault and command
+ * providers against a throwaway home and data directory, checks their
+ * precedence and failure reporting, round-trips the passphrase vault and
+ * moves credentials between vaults through an encrypted bundle.
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { CredentialProviderName, ToolsConfig } from "./config.js";
+
+// Prints credentials for the extensions it is asked about on stdin
+const COMMAND = `
+let input = "";
+process.stdin.on("data", (chunk) => (input += chunk));
+process.stdin.on("end", () => {
+  const { extensions } = JSON.parse(input);
+  if (process.argv[2] === "hang") return setTimeout(() => {}, 60000);
+  const output = {};
+  for (const name of extensions) {
+    output[name] = {
+      preferences: { source: "command", fromCommand: name },
+      tokens: { accessToken: name + "-command-token" },
+    };
+  }
+  console.log(JSON.stringify(output));
+});
+`;
+
+async function main() {
+  const home = process.env.CREDENTIALS_TEST_HOME;
+  if (!home) {
+    // preferences.json and the default vault are under the home directory,
+    // which the runtime reads once at startup, so the checks run in a child
+    const tempHome = await mkdtemp(join(tmpdir(), "raybridge-credentials-"));
+    const child = spawnSync(process.execPath, [process.argv[1]], {
+      env: {
+        ...process.env,
+        HOME: tempHome,
+        CREDENTIALS_TEST_HOME: tempHome,
+        RAYBRIDGE_DATA_DIR: join(tempHome, "data"),
+      },
+      stdio: "inherit",
+    });
+    await rm(tempHome, { recursive: true, force: true });
+    process.exit(child.status ?? 1);
+  }
+
+  process.env.RAYBRIDGE_VAULT_PASSPHRASE = "vault-passphrase";
+  process.env.RAYBRIDGE_BUNDLE_PASSPHRASE = "bundle-passphrase";
+  const { loadCredentials } = await import("./credentials.js");
+  const { decryptWithPassphrase, encryptWithPassphrase, readVaultFile, writeVaultFile } =
+    await import("./vault.js");
+  const { exportCredentials, importCredentials } = await import("./bundle.js");
+  const { loadTokenEndpoints, saveTokenEndpoint, saveStoredTokens } = await import(
+    "./token-store.js"
+  );
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  const commandPath = join(home, "credentials-command.js");
+  await writeFile(commandPath, COMMAND);
+  const vaultPath = join(home, "vault.enc");
+  const config = (
+    command: string[],
+    providers: CredentialProviderName[] = ["env", "vault", "command"]
+  ): ToolsConfig => ({
+    mode: "blocklist",
+    extensions: {},
+    credentials: {
+      providers,
+      vault: { path: vaultPath },
+      command: { command: process.execPath, args: command, timeoutMs: 2000 },
+    },
+  });
+
+  const encrypted = await encryptWithPassphrase("plain text", "right");
+  check(
+    "the passphrase vault round-trips",
+    (await decryptWithPassphrase(encrypted, "right")) === "plain text" &&
+      !encrypted.includes("plain text")
+  );
+  const wrong = await decryptWithPassphrase(encrypted, "wrong").catch((err) => err.message);
+  check("a wrong passphrase is rejected", wrong === "Wrong passphrase or corrupted vault", wrong);
+
+  await writeVaultFile(
+    vaultPath,
+    JSON.stringify({
+      "my-ext": {
+        preferences: { source: "vault", fromVault: true },
+        tokens: [{ accessToken: "vault-token" }],
+      },
+    })
+  );
+  process.env.RAYBRIDGE_PREFERENCES_MY_EXT = JSON.stringify({ source: "env" });
+  process.env.RAYBRIDGE_TOKENS_MY_EXT = "env-token";
+
+  const loaded = await loadCredentials(["my-ext"], config([commandPath]));
+  check(
+    "preferences from every provider are merged, the first provider winning",
+    JSON.stringify(loaded.preferences["my-ext"]) ===
+      '{"source":"env","fromCommand":"my-ext","fromVault":true}',
+    loaded.preferences["my-ext"]
+  );
+  check(
+    "token sets are listed in provider order",
+    JSON.stringify(loaded.tokens.get("my-ext")?.map((t) => t.accessToken)) ===
+      '["env-token","vault-token","my-ext-command-token"]',
+    loaded.tokens.get("my-ext")
+  );
+  check("nothing is reported as failed", Object.keys(loaded.failures).length === 0, loaded.failures);
+
+  const reordered = await loadCredentials(["my-ext"], config([commandPath], ["command", "vault"]));
+  check(
+    "the precedence order is configurable",
+    reordered.preferences["my-ext"]?.source === "command" &&
+      reordered.tokens.get("my-ext")?.[0]?.accessToken === "my-ext-command-token",
+    reordered
+  );
+
+  const hanging = await loadCredentials(["my-ext"], config([commandPath, "hang"]));
+  check(
+    "a command that hangs is reported as failed and the others still load",
+    /timed out after 2000ms/.test(hanging.failures.command ?? "") &&
+      hanging.preferences["my-ext"]?.source === "env",
+    hanging.failures
+  );
+
+  // Export everything the server would use, then import into a new vault
+  delete process.env.RAYBRIDGE_PREFERENCES_MY_EXT;
+  delete process.env.RAYBRIDGE_TOKENS_MY_EXT;
+  await saveStoredTokens("my-ext", {
+    accessToken: "stored-token",
+    refreshToken: "stored-refresh",
+    providerName: "Provider",
+  });
+  await saveTokenEndpoint("my-ext", "Provider", {
+    url: "https://auth.example.com/token",
+    params: { client_id: "client" },
+    encoding: "form",
+  });
+  const bundlePath = join(home, "bundle.enc");
+  const exported = await exportCredentials(bundlePath, ["my-ext", "unused"], config([], ["vault"]));
+  check(
+    "only extensions with credentials are exported",
+    JSON.stringify(exported) === '["my-ext"]',
+    exported
+  );
+  check(
+    "the bundle is encrypted",
+    !(await readFile(bundlePath, "utf-8")).includes("stored-token")
+  );
+
+  const importedVault = join(home, "imported.enc");
+  await writeVaultFile(
+    importedVault,
+    JSON.stringify({ "my-ext": { preferences: { kept: "yes", source: "old" }, tokens: "old-token" } })
+  );
+  const importConfig: ToolsConfig = {
+    mode: "blocklist",
+    extensions: {},
+    credentials: { vault: { path: importedVault } },
+  };
+  await rm(join(process.env.RAYBRIDGE_DATA_DIR!, "tokens"), { recursive: true, force: true });
+  const imported = await importCredentials(bundlePath, importConfig);
+  const vault = JSON.parse(await readVaultFile(importedVault));
+  check(
+    "imported preferences are merged into the vault key by key",
+    imported[0] === "my-ext" &&
+      JSON.stringify(vault["my-ext"].preferences) ===
+        '{"kept":"yes","source":"vault","fromVault":true}',
+    vault["my-ext"]?.preferences
+  );
+  check(
+    "imported token sets replace the vault's",
+    JSON.stringify(vault["my-ext"].tokens.map((t: { accessToken: string }) => t.accessToken)) ===
+      '["stored-token","vault-token"]',
+    vault["my-ext"]?.tokens
+  );
+  const endpoints = await loadTokenEndpoints("my-ext");
+  check(
+    "token endpoints travel with the bundle",
+    endpoints.Provider?.url === "https://auth.example.com/token",
+    endpoints
+  );
+
+  // An age vault can't be rewritten without recipients to encrypt to
+  await writeFile(importedVault, "age-encryption.org/v1\n-> X25519 stub\n");
+  const refused = await importCredentials(bundlePath, importConfig).catch((err) => err.message);
+  check(
+    "importing into an age vault without ageRecipients is refused",
+    typeof refused === "string" && refused.includes("ageRecipients") &&
+      (await readFile(importedVault, "utf-8")).startsWith("age-encryption.org/v1"),
+    refused
+  );
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
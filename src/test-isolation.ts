@@ -0,0 +1,158 @@
+#!/usr/bin/env bun
+/**
+ * Subprocess isolation test
+ *
+ * Runs a fixture tool in isolated workers and checks that a worker that
+ * crashes, hangs past its timeout, is cancelled or exceeds its memory cap
+ * fails only its own call and is killed, that results and progress come
+ * back over IPC, and that strict-shim errors keep their type across the
+ * process boundary.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { executeToolIsolated, type IsolatedRunOptions } from "./isolation.js";
+import { UnsupportedRaycastApiError } from "./shims.js";
+
+const TOOL = `
+const { writeFileSync } = require("node:fs");
+const { getSelectedText, showToast, Toast } = require("@raycast/api");
+
+module.exports = async function ({ phase, pidFile }) {
+  writeFileSync(pidFile, String(process.pid));
+  if (phase === "ok") {
+    await showToast({ style: Toast.Style.Animated, title: "Working" });
+    return "pid " + process.pid;
+  }
+  if (phase === "exit") process.exit(3);
+  if (phase === "throw") {
+    setTimeout(() => { throw new Error("uncaught"); });
+  }
+  if (phase === "memory") {
+    const kept = [];
+    for (;;) {
+      kept.push(Buffer.alloc(16 * 1024 * 1024, 1));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+  if (phase === "unsupported") return getSelectedText();
+  return new Promise(() => {});
+};
+`;
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether the process exits within a second. */
+async function exits(pid: number): Promise<boolean> {
+  for (let i = 0; i < 50 && isAlive(pid); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return !isAlive(pid);
+}
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-isolation-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  try {
+    const toolPath = join(root, "tool.js");
+    const pidFile = join(root, "worker.pid");
+    await writeFile(toolPath, TOOL);
+    const workerPid = async () => Number(await readFile(pidFile, "utf-8"));
+    const run = (phase: string, options: Partial<IsolatedRunOptions> = {}) =>
+      executeToolIsolated(toolPath, { phase, pidFile }, "isolation-test", root, {
+        timeoutMs: 10_000,
+        memoryLimitMb: 0,
+        ...options,
+      }).catch((err: Error) => err);
+
+    const progress: string[] = [];
+    const ok = await run("ok", { onProgress: (message) => progress.push(message) });
+    check(
+      "a result and toast progress come back from the worker",
+      ok === `pid ${await workerPid()}` && ok !== `pid ${process.pid}` && progress[0] === "Working",
+      { ok, progress }
+    );
+
+    const exited = await run("exit");
+    check(
+      "a worker calling process.exit fails only its call",
+      exited instanceof Error && exited.message === "Tool process exited unexpectedly (code 3)",
+      String(exited)
+    );
+    const thrown = await run("throw");
+    check(
+      "an uncaught exception in the worker fails only its call",
+      thrown instanceof Error && thrown.message.startsWith("Tool process exited unexpectedly"),
+      String(thrown)
+    );
+
+    const timedOut = await run("hang", { timeoutMs: 300 });
+    check(
+      "a worker past its timeout is killed",
+      timedOut instanceof Error &&
+        timedOut.message === "Tool timed out after 300ms" &&
+        (await exits(await workerPid())),
+      String(timedOut)
+    );
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 300);
+    const cancelled = await run("hang", { signal: controller.signal });
+    check(
+      "a cancelled call kills its worker",
+      cancelled instanceof Error &&
+        cancelled.message === "Tool call was cancelled" &&
+        (await exits(await workerPid())),
+      String(cancelled)
+    );
+
+    const overMemory = await run("memory", { memoryLimitMb: 256 });
+    check(
+      "a worker over its memory cap is stopped",
+      overMemory instanceof Error &&
+        overMemory.message === "Tool exceeded memory limit of 256MB" &&
+        (await exits(await workerPid())),
+      String(overMemory)
+    );
+
+    const unsupported = await run("unsupported", { strictShims: true });
+    check(
+      "a strict-shim error keeps its type across the process boundary",
+      unsupported instanceof UnsupportedRaycastApiError &&
+        unsupported.module === "@raycast/api" &&
+        unsupported.api === "getSelectedText",
+      String(unsupported)
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,342 @@
+#!/usr/bin/env bun
+/**
+ * MCP server test
+ *
+ * Serves fixture extensions through createMcpServer to in-memory MCP
+ * clients with and without elicitation, and checks that per-tool names
+ * are sanitized and disambiguated when they collide, that cancelling a
+ * request aborts the tool's fetches, that toasts reach the client as
+ * progress notifications, that AI.ask is answered through sampling, and
+ * that confirmAlert asks the user or applies the confirmation fallback and
+ * runs the chosen action's callback.
+ */
+
+import { createServer } from "node:http";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  type ClientCapabilities,
+  type CreateMessageRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ExtensionEntry, ToolEntry } from "./discovery.js";
+import type { ToolsConfig } from "./config.js";
+import { buildToolDefs, createMcpServer, type ServerContext } from "./index.js";
+
+const CONFIRM_TOOL = `
+const { Alert, confirmAlert } = require("@raycast/api");
+
+module.exports = async function () {
+  const actions = [];
+  const confirmed = await confirmAlert({
+    title: "Delete the file?",
+    primaryAction: {
+      title: "Delete",
+      style: Alert.ActionStyle.Destructive,
+      onAction: () => actions.push("primary"),
+    },
+    dismissAction: { title: "Keep", onAction: () => actions.push("dismiss") },
+  });
+  return JSON.stringify({ confirmed, actions });
+};
+`;
+
+const OWNER_TOOL = `
+const { environment } = require("@raycast/api");
+
+module.exports = async function () {
+  return environment.extensionName;
+};
+`;
+
+const FETCH_TOOL = `
+const { writeFileSync } = require("node:fs");
+
+module.exports = async function () {
+  try {
+    await fetch(process.env.MCP_TEST_URL);
+    writeFileSync(process.env.MCP_TEST_MARKER, "finished");
+  } catch {
+    // Rejects with the signal's reason, which need not be an Error
+    writeFileSync(process.env.MCP_TEST_MARKER, "aborted");
+  }
+  return "done";
+};
+`;
+
+const TOAST_TOOL = `
+const { showToast, Toast } = require("@raycast/api");
+
+module.exports = async function () {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Syncing" });
+  toast.message = "1 of 2";
+  toast.title = "Synced";
+  toast.style = Toast.Style.Success;
+  return "done";
+};
+`;
+
+const ASK_TOOL = `
+const { AI } = require("@raycast/api");
+
+module.exports = async function () {
+  const chunks = [];
+  const answer = await AI.ask("Summarize my notes", {
+    creativity: "low",
+    model: AI.Model.Anthropic_Claude_Sonnet,
+  }).on("data", (chunk) => chunks.push(chunk));
+  return JSON.stringify({ answer, chunks });
+};
+`;
+
+function tool(extensionDir: string, name: string, overrides: Partial<ToolEntry> = {}): ToolEntry {
+  return {
+    kind: "tool",
+    name,
+    title: name,
+    description: `The ${name} tool`,
+    confirmation: false,
+    inputSchema: { type: "object", properties: {} },
+    jsPath: join(extensionDir, "tools", `${name}.js`),
+    ...overrides,
+  };
+}
+
+function extension(root: string, name: string, tools: string[]): ExtensionEntry {
+  const extensionDir = join(root, name);
+  return {
+    extensionName: name,
+    extensionTitle: name,
+    extensionId: name,
+    extensionDir,
+    preferences: [],
+    commandPreferences: {},
+    tools: tools.map((t) => tool(extensionDir, t)),
+  };
+}
+
+function serverContext(extensions: ExtensionEntry[], config: ToolsConfig): ServerContext {
+  return { extensions, ...buildToolDefs(extensions, config), config, credentialFailures: {} };
+}
+
+/** An MCP client connected to a fresh server for ctx. */
+async function connect(
+  ctx: ServerContext,
+  capabilities: ClientCapabilities = {},
+  setup?: (client: Client) => void
+): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test-client", version: "1.0.0" }, { capabilities });
+  setup?.(client);
+  await createMcpServer(ctx).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function callText(
+  client: Client,
+  name: string,
+  args: Record<string, unknown> = {}
+): Promise<string> {
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.map((block) => block.text ?? "").join("");
+}
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-mcp-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  // The server logs every call; keep the output to the checks
+  const logged: string[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.join(" "));
+
+  try {
+    // Both sanitize to my_notes__search
+    const dotted = extension(root, "my.notes", ["search"]);
+    const underscored = extension(root, "my_notes", ["search"]);
+    for (const ext of [dotted, underscored]) {
+      await mkdir(join(ext.extensionDir, "tools"), { recursive: true });
+      await writeFile(ext.tools[0].jsPath, OWNER_TOOL);
+    }
+    const perToolConfig: ToolsConfig = { mode: "blocklist", exposure: "per-tool", extensions: {} };
+    const namingClient = await connect(serverContext([dotted, underscored], perToolConfig));
+    const names = (await namingClient.listTools()).tools.map((t) => t.name);
+    const renamed = names.find((name) => /^my_notes__search_[0-9a-f]{8}$/.test(name));
+    check(
+      "per-tool names join extension and tool with __ and replace other characters",
+      names.includes("my_notes__search"),
+      names
+    );
+    check(
+      "a colliding per-tool name gets a hash suffix and the collision is logged",
+      renamed !== undefined &&
+        logged.some((line) =>
+          line.includes(
+            `Tool name my_notes__search of my_notes/search is already used by my.notes/search; exposing it as ${renamed}`
+          )
+        ),
+      { names, logged }
+    );
+    const owners = [
+      await callText(namingClient, "my_notes__search"),
+      renamed ? await callText(namingClient, renamed) : undefined,
+    ];
+    check(
+      "both colliding tools stay callable under their names",
+      owners[0] === "my.notes" && owners[1] === "my_notes",
+      owners
+    );
+    await namingClient.close();
+
+    const sync = extension(root, "sync", ["fetch", "toast"]);
+    await mkdir(join(sync.extensionDir, "tools"), { recursive: true });
+    await writeFile(sync.tools[0].jsPath, FETCH_TOOL);
+    await writeFile(sync.tools[1].jsPath, TOAST_TOOL);
+    const syncClient = await connect(serverContext([sync], perToolConfig));
+
+    // Holds every request open until the client goes away
+    const controller = new AbortController();
+    const server = createServer(() => controller.abort());
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const address = server.address();
+    process.env.MCP_TEST_URL = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+    process.env.MCP_TEST_MARKER = join(root, "fetch-outcome");
+    const cancelled = await syncClient
+      .callTool({ name: "sync__fetch", arguments: {} }, undefined, { signal: controller.signal })
+      .then(
+        () => "resolved",
+        () => "rejected"
+      );
+    let outcome: string | undefined;
+    for (let i = 0; i < 50 && outcome === undefined; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      outcome = await readFile(process.env.MCP_TEST_MARKER, "utf-8").catch(() => undefined);
+    }
+    server.closeAllConnections();
+    server.close();
+    check(
+      "cancelling a request aborts the fetch the tool is waiting on",
+      cancelled === "rejected" && outcome === "aborted",
+      { cancelled, outcome }
+    );
+
+    const progress: Array<string | undefined> = [];
+    const toasted = await syncClient.callTool({ name: "sync__toast", arguments: {} }, undefined, {
+      onprogress: (notification) => progress.push(notification.message),
+    });
+    check(
+      "animated toasts and their updates are sent as progress notifications",
+      !toasted.isError && JSON.stringify(progress) === '["Syncing","Syncing: 1 of 2","Synced: 1 of 2"]',
+      progress
+    );
+    await syncClient.close();
+
+    const ai = extension(root, "ai", ["ask"]);
+    await mkdir(join(ai.extensionDir, "tools"), { recursive: true });
+    await writeFile(ai.tools[0].jsPath, ASK_TOOL);
+    const aiCtx = serverContext([ai], perToolConfig);
+    const samples: CreateMessageRequest["params"][] = [];
+    const samplingClient = await connect(aiCtx, { sampling: {} }, (c) =>
+      c.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+        samples.push(request.params);
+        const prompt = request.params.messages[0].content;
+        return {
+          model: "test-model",
+          role: "assistant",
+          content: { type: "text", text: `Sampled: ${"text" in prompt ? prompt.text : ""}` },
+        };
+      })
+    );
+    const asked = await callText(samplingClient, "ai__ask");
+    check(
+      "AI.ask is answered by the client's model through sampling",
+      asked === '{"answer":"Sampled: Summarize my notes","chunks":["Sampled: Summarize my notes"]}' &&
+        samples[0]?.temperature === 0.5 &&
+        samples[0].modelPreferences?.hints?.[0]?.name === "claude-sonnet",
+      { asked, samples }
+    );
+    await samplingClient.close();
+
+    const plainClient = await connect(aiCtx);
+    const unsampled = await callText(plainClient, "ai__ask");
+    check(
+      "AI.ask fails clearly when the client does not support sampling",
+      unsampled.includes("AI.ask is unavailable: the connected MCP client does not support sampling"),
+      unsampled
+    );
+    await plainClient.close();
+
+    const files = extension(root, "files", ["delete"]);
+    await mkdir(join(files.extensionDir, "tools"), { recursive: true });
+    await writeFile(files.tools[0].jsPath, CONFIRM_TOOL);
+    const ctx = serverContext([files], perToolConfig);
+
+    for (const answer of ["accept", "decline"] as const) {
+      const prompts: string[] = [];
+      const client = await connect(ctx, { elicitation: {} }, (c) =>
+        c.setRequestHandler(ElicitRequestSchema, async (request) => {
+          prompts.push(request.params.message);
+          return answer === "accept"
+            ? { action: "accept", content: { confirm: true } }
+            : { action: "decline" };
+        })
+      );
+      const result = await callText(client, "files__delete");
+      check(
+        `confirmAlert asks through elicitation and runs the ${answer === "accept" ? "primary" : "dismiss"} action`,
+        prompts[0] === "Delete the file?" &&
+          result ===
+            (answer === "accept"
+              ? '{"confirmed":true,"actions":["primary"]}'
+              : '{"confirmed":false,"actions":["dismiss"]}'),
+        { prompts, result }
+      );
+      await client.close();
+    }
+
+    const fallbackClient = await connect(ctx);
+    const declined = await callText(fallbackClient, "files__delete");
+    check(
+      "without elicitation, confirmAlert declines unless the call is confirmed",
+      declined === '{"confirmed":false,"actions":["dismiss"]}',
+      declined
+    );
+    const confirmed = await callText(fallbackClient, "files__delete", { confirmed: true });
+    check(
+      "any tool can confirm confirmAlert with the confirmed argument",
+      confirmed === '{"confirmed":true,"actions":["primary"]}',
+      confirmed
+    );
+    await fallbackClient.close();
+  } finally {
+    console.error = consoleError;
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    console.log(logged.join("\n"));
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+#!/usr/bin/env bun
+/**
+ * Legacy configuration test
+ *
+ * Writes ray-ai-tools and raybridge configuration into a throwaway home
+ * directory and checks that both are read with raybridge's values winning,
+ * that conflicts are warned about by name only, and that `raybridge
+ * migrate` moves the merged result over and retires the legacy directory.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { tmpdir } from "node:os";
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(value));
+}
+
+async function main() {
+  const home = process.env.MIGRATION_TEST_HOME;
+  if (!home) {
+    // Both configuration directories are under the home directory, which
+    // the runtime reads once at startup, so the checks run in a child
+    const tempHome = await mkdtemp(join(tmpdir(), "raybridge-migration-"));
+    const child = spawnSync(process.execPath, [process.argv[1]], {
+      env: { ...process.env, HOME: tempHome, MIGRATION_TEST_HOME: tempHome },
+      stdio: "inherit",
+    });
+    await rm(tempHome, { recursive: true, force: true });
+    process.exit(child.status ?? 1);
+  }
+
+  const legacyDir = join(home, ".config", "ray-ai-tools");
+  const configDir = join(home, ".config", "raybridge");
+  await writeJson(join(legacyDir, "tools.json"), {
+    mode: "allowlist",
+    exposure: "per-tool",
+    extensions: { alpha: { enabled: true }, beta: { enabled: false } },
+  });
+  await writeJson(join(legacyDir, "preferences.json"), {
+    ext: { token: "legacy-value", onlyLegacy: "kept" },
+    legacyExt: { key: "legacy" },
+  });
+  await writeJson(join(configDir, "tools.json"), {
+    mode: "blocklist",
+    extensions: { beta: { enabled: true } },
+  });
+  await writeJson(join(configDir, "preferences.json"), { ext: { token: "current-value" } });
+
+  const { loadPreferences, loadToolsConfig, migrateLegacyConfig } = await import("./config.js");
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  const logged: string[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.join(" "));
+
+  try {
+    const config = await loadToolsConfig();
+    check(
+      "tools.json settings from raybridge win over ray-ai-tools'",
+      config.mode === "blocklist" && config.extensions.beta?.enabled === true,
+      config
+    );
+    check(
+      "settings only ray-ai-tools has are still used",
+      config.exposure === "per-tool" && config.extensions.alpha?.enabled === true,
+      config
+    );
+
+    const prefs = await loadPreferences();
+    check(
+      "preferences are merged key by key, raybridge's winning",
+      prefs.ext?.token === "current-value" &&
+        prefs.ext?.onlyLegacy === "kept" &&
+        prefs.legacyExt?.key === "legacy",
+      prefs
+    );
+    check(
+      "conflicts are warned about by name",
+      logged.some((line) => line.includes('"blocklist" in raybridge and "allowlist"')) &&
+        logged.some((line) => line.includes("settings for beta differ")) &&
+        logged.some((line) => line.includes("Preference ext.token differs")),
+      logged
+    );
+    check(
+      "warnings never echo preference values",
+      !logged.some((line) => /legacy-value|current-value/.test(line)),
+      logged
+    );
+
+    const backupDir = await migrateLegacyConfig();
+    const migratedConfig = JSON.parse(await readFile(join(configDir, "tools.json"), "utf-8"));
+    const migratedPrefs = JSON.parse(await readFile(join(configDir, "preferences.json"), "utf-8"));
+    check(
+      "migrate writes the merged configuration to raybridge's files",
+      migratedConfig.mode === "blocklist" &&
+        migratedConfig.extensions.alpha?.enabled === true &&
+        migratedPrefs.ext?.token === "current-value" &&
+        migratedPrefs.ext?.onlyLegacy === "kept",
+      { migratedConfig, migratedPrefs }
+    );
+    check(
+      "the legacy directory is renamed so it is no longer read",
+      backupDir === `${legacyDir}.migrated` &&
+        !existsSync(legacyDir) &&
+        existsSync(join(backupDir, "preferences.json")),
+      backupDir
+    );
+    check("migrating again does nothing", (await migrateLegacyConfig()) === undefined);
+  } finally {
+    console.error = consoleError;
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
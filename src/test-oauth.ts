@@ -0,0 +1,239 @@
+#!/usr/bin/env bun
+/**
+ * OAuth token refresh test
+ *
+ * Runs a fixture tool that signs in to two providers through
+ * OAuth.PKCEClient, against a local token server, and checks that
+ * raybridge refreshes each provider's expired tokens at that provider's own
+ * endpoint and never writes client secrets to disk. Also runs the PKCE
+ * authorization flow through the loopback redirect and keeps token sets of
+ * two accounts apart.
+ */
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { ClientBridge } from "./context.js";
+import { executeTool } from "./loader.js";
+
+const TOOL = `
+const { OAuth } = require("@raycast/api");
+const { OAuthService } = require("@raycast/utils");
+
+const alpha = new OAuth.PKCEClient({ providerName: "Alpha" });
+const beta = new OAuth.PKCEClient({ providerName: "Beta" });
+const gamma = new OAuth.PKCEClient({ providerName: "Gamma" });
+const service = new OAuthService({
+  client: gamma,
+  clientId: "gamma-client",
+  scope: "read",
+  authorizeUrl: process.env.OAUTH_TEST_URL + "/gamma/authorize",
+  tokenUrl: process.env.OAUTH_TEST_URL + "/gamma/token",
+  bodyEncoding: "url-encoded",
+});
+
+async function exchange(client, provider) {
+  const response = await fetch(process.env.OAUTH_TEST_URL + "/" + provider + "/token", {
+    method: "POST",
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: "code",
+      client_id: provider + "-client",
+      client_secret: provider + "-secret",
+    }),
+  });
+  await client.setTokens(await response.json());
+}
+
+module.exports = async function ({ phase, account }) {
+  if (phase === "pkce") {
+    const client = new OAuth.PKCEClient({ providerName: "Delta" });
+    const request = await client.authorizationRequest({
+      endpoint: process.env.OAUTH_TEST_URL + "/delta/authorize",
+      clientId: "delta-client",
+      scope: "read write",
+    });
+    const { authorizationCode } = await client.authorize(request);
+    return JSON.stringify({
+      url: request.toURL(),
+      codeVerifier: request.codeVerifier,
+      codeChallenge: request.codeChallenge,
+      authorizationCode,
+    });
+  }
+  if (phase === "preset") {
+    return OAuthService.github({ scope: "repo" }).authorize().catch((err) => err.message);
+  }
+  const epsilon = new OAuth.PKCEClient({ providerName: "Epsilon" });
+  if (phase === "account-sign-in") {
+    await epsilon.setTokens({ access_token: account + "-token", expires_in: 3600 });
+    return "signed in";
+  }
+  if (phase === "account-use") {
+    const tokens = await epsilon.getTokens();
+    return JSON.stringify({ accessToken: tokens ? tokens.accessToken : null });
+  }
+  if (phase === "sign-in") {
+    // Sign in to beta last, so a single per-extension endpoint would be beta's
+    await exchange(alpha, "alpha");
+    await exchange(beta, "beta");
+    await gamma.setTokens({ access_token: "gamma-old", refresh_token: "gamma-refresh", expires_in: -10 });
+    return "signed in";
+  }
+  const tokens = await Promise.all([alpha.getTokens(), beta.getTokens()]);
+  return JSON.stringify({
+    alpha: tokens[0].accessToken,
+    beta: tokens[1].accessToken,
+    gamma: await service.authorize(),
+  });
+};
+`;
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-oauth-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  // Refresh tokens each endpoint received, by provider
+  const refreshed: Record<string, string[]> = {};
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const provider = (req.url ?? "").split("/")[1];
+      const params = new URLSearchParams(body);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      if (params.get("grant_type") === "refresh_token") {
+        (refreshed[provider] ??= []).push(params.get("refresh_token") ?? "");
+        res.end(JSON.stringify({ access_token: `${provider}-new`, expires_in: 3600 }));
+      } else {
+        res.end(JSON.stringify({
+          access_token: `${provider}-old`,
+          refresh_token: `${provider}-refresh`,
+          expires_in: -10,
+        }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  process.env.OAUTH_TEST_URL = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+
+  try {
+    const toolPath = join(root, "tool.js");
+    await writeFile(toolPath, TOOL);
+    const run = (phase: string) => executeTool(toolPath, { phase }, "oauth-test", root);
+
+    await run("sign-in");
+    const tokens = JSON.parse(await run("use"));
+    check(
+      "expired tokens of two providers are refreshed",
+      tokens.alpha === "alpha-new" && tokens.beta === "beta-new" && tokens.gamma === "gamma-new",
+      tokens
+    );
+    check(
+      "each refresh token goes only to its own provider's endpoint",
+      JSON.stringify(refreshed.alpha) === '["alpha-refresh"]' &&
+        JSON.stringify(refreshed.beta) === '["beta-refresh"]',
+      refreshed
+    );
+    check(
+      "an OAuthService's configured tokenUrl is used for its client",
+      JSON.stringify(refreshed.gamma) === '["gamma-refresh"]',
+      refreshed
+    );
+
+    const stored = await readFile(join(root, "tokens", "oauth-test.json"), "utf-8");
+    const file = JSON.parse(stored);
+    check(
+      "token endpoints are stored per provider",
+      file.tokenEndpoints?.Alpha?.url.endsWith("/alpha/token") &&
+        file.tokenEndpoints?.Beta?.url.endsWith("/beta/token") &&
+        file.tokenEndpoints?.Alpha?.params.client_id === "alpha-client",
+      file.tokenEndpoints
+    );
+    check("client secrets are not written to disk", !stored.includes("secret"), file.tokenEndpoints);
+
+    // Stands in for the browser: follows the authorization URL straight to
+    // the loopback redirect with a code
+    const client: ClientBridge = {
+      openAuthorizationUrl: async ({ url }) => {
+        const params = new URL(url).searchParams;
+        const redirect = new URL(params.get("redirect_uri") ?? "");
+        redirect.searchParams.set("code", "delta-code");
+        redirect.searchParams.set("state", params.get("state") ?? "");
+        await fetch(redirect);
+        return true;
+      },
+    };
+    const pkce = JSON.parse(
+      await executeTool(toolPath, { phase: "pkce" }, "oauth-test", root, { client })
+    );
+    const params = new URL(pkce.url).searchParams;
+    check(
+      "the authorization code arrives through the loopback redirect",
+      pkce.authorizationCode === "delta-code",
+      pkce
+    );
+    check(
+      "the code challenge is the S256 hash of the verifier",
+      params.get("code_challenge_method") === "S256" &&
+        params.get("code_challenge") === pkce.codeChallenge &&
+        pkce.codeChallenge === createHash("sha256").update(pkce.codeVerifier).digest("base64url"),
+      pkce
+    );
+    check(
+      "the authorization URL carries the client, scope and loopback redirect",
+      params.get("client_id") === "delta-client" &&
+        params.get("scope") === "read write" &&
+        params.get("response_type") === "code" &&
+        params.get("redirect_uri")?.startsWith("http://127.0.0.1:") === true,
+      pkce.url
+    );
+
+    const asAccount = (phase: string, account: string) =>
+      executeTool(toolPath, { phase, account }, "oauth-test", root, { account });
+    await asAccount("account-sign-in", "work");
+    await asAccount("account-sign-in", "personal");
+    const work = JSON.parse(await asAccount("account-use", "work"));
+    const personal = JSON.parse(await asAccount("account-use", "personal"));
+    const unknown = JSON.parse(await asAccount("account-use", "other"));
+    check(
+      "each account gets its own tokens",
+      work.accessToken === "work-token" && personal.accessToken === "personal-token",
+      { work, personal }
+    );
+    check("an unknown account gets no tokens", unknown.accessToken === null, unknown);
+
+    const preset = await run("preset");
+    check(
+      "a preset without a clientId fails with a clear error",
+      preset.startsWith("GitHub needs a clientId to sign in from raybridge"),
+      preset
+    );
+  } finally {
+    server.close();
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env bun
+/**
+ * Preference resolution test
+ *
+ * Runs a fixture tool that reads getPreferenceValues() with declared
+ * manifest preferences and checks that defaults, type coercion and
+ * undeclared values match Raycast, and that a call missing a required
+ * preference is blocked with a message naming it.
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { PreferenceEntry } from "./discovery.js";
+import { executeTool } from "./loader.js";
+import { MissingPreferencesError } from "./preferences.js";
+import { setPreferences } from "./shims.js";
+
+const TOOL = `
+const { getPreferenceValues } = require("@raycast/api");
+
+module.exports = async function () {
+  return JSON.stringify(getPreferenceValues());
+};
+`;
+
+const DECLARED: PreferenceEntry[] = [
+  { name: "token", title: "API Token", type: "password", required: true },
+  { name: "region", title: "Region", type: "textfield", required: false, default: "us" },
+  { name: "verbose", title: "Verbose", type: "checkbox", required: false },
+  { name: "notify", title: "Notify", type: "checkbox", required: false },
+  {
+    name: "view",
+    title: "View",
+    type: "dropdown",
+    required: false,
+    data: [
+      { title: "List", value: "list" },
+      { title: "Grid", value: "grid" },
+    ],
+  },
+  { name: "limit", title: "Limit", type: "textfield", required: false },
+];
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-preferences-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  try {
+    const toolPath = join(root, "tool.js");
+    await writeFile(toolPath, TOOL);
+    const run = () =>
+      executeTool(toolPath, {}, "prefs-test", root, { declaredPreferences: DECLARED });
+
+    setPreferences({
+      "prefs-test": { token: "secret", notify: "TRUE", region: "", limit: 25, extra: 1 },
+    });
+    const values = JSON.parse(await run());
+    check(
+      "unset and empty preferences get their default",
+      values.region === "us" && values.verbose === false && values.view === "list",
+      values
+    );
+    check(
+      "checkboxes become booleans and other types strings",
+      values.notify === true && values.limit === "25" && values.token === "secret",
+      values
+    );
+    check("undeclared values pass through unchanged", values.extra === 1, values);
+
+    setPreferences({ "prefs-test": { region: "eu" } });
+    let error: unknown;
+    try {
+      await run();
+    } catch (err) {
+      error = err;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    check(
+      "a call missing a required preference is blocked",
+      error instanceof MissingPreferencesError,
+      message
+    );
+    check(
+      "the message names the preference and points passwords at the secret store",
+      message.includes('"API Token" (token)') &&
+        message.includes("${secret:prefs-test-token}") &&
+        message.includes("raybridge secret set prefs-test-token"),
+      message
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
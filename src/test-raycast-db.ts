@@ -0,0 +1,121 @@
+#!/usr/bin/env bun
+/**
+ * Raycast database reader test
+ *
+ * Builds a fixture SQLCipher database shaped like Raycast's in a temp
+ * directory and reads it back. Runs on any platform with the `sqlcipher`
+ * CLI, and fails under CI without it; the Keychain is bypassed by passing
+ * the fixture's passphrase.
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { setTimeout as sleep } from "node:timers/promises";
+import { loadRaycastCredentials } from "./auth.js";
+
+const PASSPHRASE = "fixture-passphrase";
+
+function sqlcipher(dbPath: string, sql: string): void {
+  const result = spawnSync("sqlcipher", [dbPath], {
+    input: `PRAGMA key = '${PASSPHRASE}';\n${sql}\n`,
+    encoding: "utf-8",
+  });
+  if (result.error) throw result.error;
+  if (result.status !== 0 || result.stderr.trim()) {
+    throw new Error(result.stderr.trim() || `sqlcipher exited with code ${result.status}`);
+  }
+}
+
+function quote(value: unknown): string {
+  return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
+}
+
+async function main() {
+  if (spawnSync("sqlcipher", ["-version"]).error) {
+    if (process.env.CI) {
+      console.log("❌ sqlcipher not found, but CI must run the Raycast database tests");
+      process.exit(1);
+    }
+    console.log("⚠️  sqlcipher not found, skipping Raycast database tests");
+    return;
+  }
+
+  const root = await mkdtemp(join(tmpdir(), "raybridge-raycast-db-"));
+  const dbPath = join(root, "raycast-enc.sqlite");
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  try {
+    sqlcipher(
+      dbPath,
+      [
+        "CREATE TABLE extensions (name TEXT, tokenSets TEXT, preferences TEXT);",
+        `INSERT INTO extensions VALUES ('linear', ${quote([{ accessToken: "lin-token", id: "work" }])}, ${quote([{ name: "team", value: "core" }])});`,
+        `INSERT INTO extensions VALUES ('github', ${quote({ accessToken: "gh-token" })}, NULL);`,
+        `INSERT INTO extensions VALUES ('notes', '', ${quote([{ name: "folder", value: "inbox" }, { name: "unset" }])});`,
+        "INSERT INTO extensions VALUES ('empty', NULL, NULL);",
+      ].join("\n")
+    );
+
+    const before = new Set(await readdir(tmpdir()));
+    const first = await loadRaycastCredentials({ dbPath, passphrase: PASSPHRASE });
+    check(
+      "token sets are read, single sets wrapped in an array",
+      first.tokens.get("linear")?.[0]?.accessToken === "lin-token" &&
+        first.tokens.get("github")?.[0]?.accessToken === "gh-token" &&
+        !first.tokens.has("notes"),
+      Object.fromEntries(first.tokens)
+    );
+    check(
+      "preferences are read as name/value pairs",
+      JSON.stringify(first.preferences) ===
+        JSON.stringify({ linear: { team: "core" }, notes: { folder: "inbox" } }),
+      first.preferences
+    );
+    const leftovers = (await readdir(tmpdir())).filter((f) => !before.has(f));
+    check("no copies of the database are left on disk", leftovers.length === 0, leftovers);
+
+    const second = await loadRaycastCredentials({ dbPath, passphrase: PASSPHRASE });
+    check("unchanged database is served from the cache", second === first);
+
+    // mtime resolution can be coarse on some filesystems
+    await sleep(20);
+    sqlcipher(dbPath, `UPDATE extensions SET tokenSets = ${quote([{ accessToken: "lin-new" }])} WHERE name = 'linear';`);
+    const third = await loadRaycastCredentials({ dbPath, passphrase: PASSPHRASE });
+    check(
+      "a changed database is read again",
+      third !== first && third.tokens.get("linear")?.[0]?.accessToken === "lin-new",
+      Object.fromEntries(third.tokens)
+    );
+
+    await sleep(20);
+    sqlcipher(dbPath, "INSERT INTO extensions VALUES ('other', NULL, NULL);");
+    const wrong = await loadRaycastCredentials({ dbPath, passphrase: "wrong" }).then(
+      () => undefined,
+      (err: Error) => err
+    );
+    check("a wrong passphrase is reported as an error", wrong instanceof Error);
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
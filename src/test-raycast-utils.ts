@@ -0,0 +1,276 @@
+#!/usr/bin/env bun
+/**
+ * @raycast/utils shim test
+ *
+ * Runs fixture tools and a view command that use the @raycast/utils shim
+ * against a local token server and checks OAuthService sign-in, refresh
+ * and missing-clientId errors, that withAccessToken scopes tokens to their
+ * call, and that hooks settle headlessly: usePromise ignores and aborts
+ * superseded runs and reports pagination, useExec maps exit codes and
+ * useLocalStorage round-trips JSON.
+ */
+
+import { createServer } from "node:http";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { ClientBridge } from "./context.js";
+import { executeTool } from "./loader.js";
+import { getItem } from "./local-storage.js";
+
+const OAUTH_TOOL = `
+const { OAuth } = require("@raycast/api");
+const { OAuthService } = require("@raycast/utils");
+
+const client = new OAuth.PKCEClient({ providerName: "Provider" });
+
+module.exports = async function ({ phase }) {
+  if (phase === "expire") {
+    await client.setTokens({ access_token: "old", refresh_token: "old-refresh", expires_in: -10 });
+    return "expired";
+  }
+  const service = new OAuthService({
+    client,
+    clientId: phase === "no-client-id" ? undefined : "client",
+    scope: ["read", "write"],
+    authorizeUrl: process.env.UTILS_TEST_URL + "/authorize",
+    tokenUrl: process.env.UTILS_TEST_URL + "/token",
+    bodyEncoding: "url-encoded",
+  });
+  return service.authorize().catch((err) => "Error: " + err.message);
+};
+`;
+
+const ACCESS_TOKEN_TOOL = `
+const { environment } = require("@raycast/api");
+const { withAccessToken, getAccessToken } = require("@raycast/utils");
+
+const authorized = withAccessToken({
+  authorize: async () => environment.extensionName + "-token",
+})(async ({ delay }) => {
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  return getAccessToken().token;
+});
+
+module.exports = async function (input) {
+  if (!input.unwrapped) return authorized(input);
+  try {
+    return getAccessToken().token;
+  } catch (err) {
+    return "Error: " + err.message;
+  }
+};
+`;
+
+const HOOKS_COMMAND = `
+const { jsx } = require("react/jsx-runtime");
+const { useEffect, useRef, useState } = require("react");
+const { Detail } = require("@raycast/api");
+const { useExec, useLocalStorage, usePromise } = require("@raycast/utils");
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const signals = [];
+
+module.exports.default = function Command() {
+  // The first run is superseded right away and finishes last
+  const [query, setQuery] = useState("first");
+  const [waited, setWaited] = useState(false);
+  useEffect(() => {
+    setQuery("second");
+    const timer = setTimeout(() => setWaited(true), 200);
+    return () => clearTimeout(timer);
+  }, []);
+  const abortable = useRef();
+  const race = usePromise(
+    async (q) => {
+      signals.push(abortable.current.signal);
+      await sleep(q === "first" ? 100 : 10);
+      return q;
+    },
+    [query],
+    { abortable }
+  );
+  const paged = usePromise(() => async () => ({ data: ["a"], hasMore: true }));
+  const exit = useExec("sh", ["-c", "echo oops >&2; exit 3"], {
+    parseOutput: ({ exitCode, stderr }) => exitCode + ":" + stderr,
+  });
+  const failed = useExec("sh", ["-c", "echo broken >&2; exit 1"], { onError: () => {} });
+  const stored = useLocalStorage("settings");
+  const loading = !waited || race.isLoading || paged.isLoading || exit.isLoading ||
+    failed.isLoading || stored.isLoading;
+  if (!loading && stored.value === undefined) stored.setValue({ nested: { list: [1, 2] } });
+
+  return jsx(Detail, {
+    isLoading: loading || stored.value === undefined,
+    markdown: JSON.stringify({
+      race: race.data,
+      firstAborted: signals[0] ? signals[0].aborted : null,
+      hasMore: paged.pagination.hasMore,
+      exit: exit.data,
+      failed: failed.error ? failed.error.message : null,
+      stored: stored.value,
+    }),
+  });
+};
+`;
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-utils-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  // Token requests the server received, as their form parameters
+  const requests: Array<Record<string, string>> = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const params = Object.fromEntries(new URLSearchParams(body));
+      requests.push(params);
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify(
+          params.grant_type === "refresh_token"
+            ? { access_token: "refreshed", expires_in: 3600 }
+            : { access_token: "signed-in", refresh_token: "refresh", expires_in: -10 }
+        )
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  process.env.UTILS_TEST_URL = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}`;
+
+  try {
+    const oauthPath = join(root, "oauth.js");
+    const accessTokenPath = join(root, "access-token.js");
+    const hooksPath = join(root, "hooks.js");
+    await writeFile(oauthPath, OAUTH_TOOL);
+    await writeFile(accessTokenPath, ACCESS_TOKEN_TOOL);
+    await writeFile(hooksPath, HOOKS_COMMAND);
+
+    // Stands in for the browser: follows the authorization URL straight to
+    // the loopback redirect with a code
+    let authorizationUrl: URL | undefined;
+    const client: ClientBridge = {
+      openAuthorizationUrl: async ({ url }) => {
+        authorizationUrl = new URL(url);
+        const redirect = new URL(authorizationUrl.searchParams.get("redirect_uri") ?? "");
+        redirect.searchParams.set("code", "the-code");
+        redirect.searchParams.set("state", authorizationUrl.searchParams.get("state") ?? "");
+        await fetch(redirect);
+        return true;
+      },
+    };
+    const oauth = (extension: string, phase: string) =>
+      executeTool(oauthPath, { phase }, extension, root, { client });
+
+    const signedIn = await oauth("utils-oauth", "authorize");
+    check(
+      "OAuthService signs in through the authorization URL and the token endpoint",
+      signedIn === "signed-in" &&
+        authorizationUrl?.pathname === "/authorize" &&
+        authorizationUrl.searchParams.get("scope") === "read write" &&
+        requests[0]?.grant_type === "authorization_code" &&
+        requests[0].code === "the-code" &&
+        requests[0].client_id === "client" &&
+        !!requests[0].code_verifier,
+      { signedIn, requests }
+    );
+
+    const refreshed = await oauth("utils-oauth", "authorize");
+    check(
+      "expired tokens are refreshed with the service's client",
+      refreshed === "refreshed" &&
+        requests[1]?.grant_type === "refresh_token" &&
+        requests[1].refresh_token === "refresh" &&
+        requests[1].client_id === "client",
+      { refreshed, requests }
+    );
+    const reused = await oauth("utils-oauth", "authorize");
+    check(
+      "valid tokens are used without a request",
+      reused === "refreshed" && requests.length === 2,
+      { reused, requests }
+    );
+
+    const signInWithoutClientId = await oauth("utils-fresh", "no-client-id");
+    check(
+      "signing in without a clientId fails with a clear error",
+      signInWithoutClientId.startsWith("Error: Provider needs a clientId to sign in from raybridge"),
+      signInWithoutClientId
+    );
+    await oauth("utils-expired", "expire");
+    const refreshWithoutClientId = await oauth("utils-expired", "no-client-id");
+    check(
+      "refreshing without a clientId fails with a clear error",
+      refreshWithoutClientId.startsWith(
+        "Error: Provider needs a clientId to refresh its tokens from raybridge"
+      ),
+      refreshWithoutClientId
+    );
+
+    const [slow, fast] = await Promise.all([
+      executeTool(accessTokenPath, { delay: 50 }, "slow-ext", root),
+      executeTool(accessTokenPath, { delay: 10 }, "fast-ext", root),
+    ]);
+    check(
+      "getAccessToken returns the token withAccessToken obtained for the same call",
+      slow === "slow-ext-token" && fast === "fast-ext-token",
+      { slow, fast }
+    );
+    const unwrapped = await executeTool(accessTokenPath, { unwrapped: true }, "slow-ext", root);
+    check(
+      "getAccessToken outside withAccessToken fails, even after other calls authorized",
+      unwrapped.startsWith("Error: getAccessToken must be used when authenticated"),
+      unwrapped
+    );
+
+    const runHooks = () =>
+      executeTool(hooksPath, {}, "utils-hooks", root, {
+        command: { name: "hooks", mode: "view" },
+      });
+    const first = JSON.parse(await runHooks());
+    check(
+      "usePromise keeps the latest run's result and aborts the one it superseded",
+      first.race === "second" && first.firstAborted === true,
+      first
+    );
+    check("usePromise reports whether a paginated function has more", first.hasMore === true, first);
+    check(
+      "useExec passes the exit code to parseOutput and throws stderr without it",
+      first.exit === "3:oops" && first.failed === "broken",
+      first
+    );
+
+    const second = JSON.parse(await runHooks());
+    check(
+      "useLocalStorage stores values as JSON and reads them back",
+      JSON.stringify(second.stored) === '{"nested":{"list":[1,2]}}' &&
+        (await getItem("utils-hooks", "settings")) === '{"nested":{"list":[1,2]}}',
+      second.stored
+    );
+  } finally {
+    server.close();
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env bun
+/**
+ * Tool input validation test
+ *
+ * Validates inputs against the JSON Schema subset Raycast tool manifests
+ * use and checks which violations are reported, with which paths, and
+ * that schema defaults are filled in.
+ */
+
+import { validateInput } from "./schema.js";
+
+const SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1, maxLength: 10 },
+    priority: { type: "integer", minimum: 0, maximum: 4, default: 2 },
+    state: { type: "string", enum: ["open", "closed"] },
+    due: { type: "string", format: "date" },
+    key: { type: "string", pattern: "^[A-Z]+-\\d+$" },
+    labels: { type: "array", items: { type: "string" }, maxItems: 2 },
+    filters: {
+      type: "object",
+      properties: { team: { type: "string" } },
+      required: ["team"],
+    },
+    assignee: { anyOf: [{ type: "string" }, { type: "null" }] },
+  },
+  required: ["title"],
+};
+
+async function main() {
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  const paths = (input: Record<string, unknown>, schema: Record<string, unknown> = SCHEMA) =>
+    validateInput(schema, input).violations.map((v) => v.path);
+
+  const valid = validateInput(SCHEMA, {
+    title: "Fix it",
+    state: "open",
+    due: "2026-01-31",
+    key: "ENG-12",
+    labels: ["bug"],
+    filters: { team: "core" },
+    assignee: null,
+  });
+  check("valid input passes", valid.valid, valid.violations);
+  check("missing properties get their default", valid.value.priority === 2, valid.value);
+
+  check("a missing required property is reported", paths({}).includes("title"), paths({}));
+  check(
+    "a wrong type is reported",
+    JSON.stringify(paths({ title: 5 })) === '["title"]',
+    paths({ title: 5 })
+  );
+  check(
+    "string, number and array bounds are enforced",
+    ["title", "priority", "labels"].every((p) =>
+      paths({ title: "much too long a title", priority: 9, labels: ["a", "b", "c"] }).includes(p)
+    )
+  );
+  check("integers reject fractions", paths({ title: "x", priority: 1.5 }).includes("priority"));
+  check("enum values are enforced", paths({ title: "x", state: "done" }).includes("state"));
+  check("formats are checked", paths({ title: "x", due: "31/01/2026" }).includes("due"));
+  check("patterns are checked", paths({ title: "x", key: "eng-12" }).includes("key"));
+  check(
+    "nested objects and array items report dotted paths",
+    ["filters.team", "labels[1]"].every((p) =>
+      paths({ title: "x", filters: {}, labels: ["a", 2] }).includes(p)
+    ),
+    paths({ title: "x", filters: {}, labels: ["a", 2] })
+  );
+  check(
+    "anyOf accepts any matching branch and rejects the rest",
+    paths({ title: "x", assignee: "me" }).length === 0 &&
+      paths({ title: "x", assignee: 3 }).includes("assignee")
+  );
+
+  let invalidPattern: ReturnType<typeof validateInput> | undefined;
+  try {
+    invalidPattern = validateInput(
+      { type: "object", properties: { q: { type: "string", pattern: "([a-z" } } },
+      { q: "abc" }
+    );
+  } catch (err) {
+    check("an invalid pattern does not throw", false, String(err));
+  }
+  check(
+    "an invalid pattern in the schema becomes a violation",
+    !!invalidPattern &&
+      !invalidPattern.valid &&
+      invalidPattern.violations[0]?.path === "q" &&
+      invalidPattern.violations[0].message.includes("not a valid regular expression"),
+    invalidPattern?.violations
+  );
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,159 @@
+#!/usr/bin/env bun
+/**
+ * Preference reference test
+ *
+ * Resolves ${env:...}, ${file:...} and ${secret:...} references in
+ * preferences against a throwaway home directory and secret store, and
+ * checks that unresolvable references and plaintext passwords are reported
+ * by name without echoing any value.
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { ExtensionEntry, PreferenceEntry } from "./discovery.js";
+
+function extension(
+  name: string,
+  preferences: PreferenceEntry[],
+  commandPreferences: Record<string, PreferenceEntry[]> = {}
+): ExtensionEntry {
+  return {
+    extensionName: name,
+    extensionTitle: name,
+    extensionId: name,
+    extensionDir: "",
+    preferences,
+    commandPreferences,
+    tools: [],
+  };
+}
+
+function preference(name: string, type: string): PreferenceEntry {
+  return { name, title: name, type, required: false };
+}
+
+async function main() {
+  const home = process.env.SECRETS_TEST_HOME;
+  if (!home) {
+    // The secret store and `~/` paths are under the home directory, which
+    // the runtime reads once at startup, so the checks run in a child
+    const tempHome = await mkdtemp(join(tmpdir(), "raybridge-secrets-"));
+    const child = spawnSync(process.execPath, [process.argv[1]], {
+      env: { ...process.env, HOME: tempHome, SECRETS_TEST_HOME: tempHome },
+      stdio: "inherit",
+    });
+    await rm(tempHome, { recursive: true, force: true });
+    process.exit(child.status ?? 1);
+  }
+  process.env.RAYBRIDGE_VAULT_PASSPHRASE = "test-passphrase";
+  const { plaintextPasswords, resolvePreferenceReferences, setSecret } = await import(
+    "./secrets.js"
+  );
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  const logged: string[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.join(" "));
+
+  try {
+    process.env.SECRETS_TEST_TOKEN = "env-value";
+    await writeFile(join(home, "token.txt"), "file-value\n");
+    await setSecret("store-token", "store-value");
+
+    const resolved = await resolvePreferenceReferences({
+      ext: {
+        env: "${env:SECRETS_TEST_TOKEN}",
+        file: "${file:~/token.txt}",
+        secret: "${secret:store-token}",
+        header: "Bearer ${env:SECRETS_TEST_TOKEN}",
+        literal: "eu",
+        flag: true,
+        missingEnv: "${env:SECRETS_TEST_UNSET}",
+        missingSecret: "${secret:nope}",
+        mixed: "${env:SECRETS_TEST_TOKEN}${secret:nope}",
+      },
+    });
+    const prefs = resolved.ext;
+
+    check("${env:NAME} resolves to the variable", prefs.env === "env-value", prefs.env);
+    check(
+      "${file:~/PATH} resolves to the file without its trailing newline",
+      prefs.file === "file-value",
+      prefs.file
+    );
+    check("${secret:NAME} resolves from the secret store", prefs.secret === "store-value", prefs.secret);
+    check(
+      "references inside surrounding text are replaced",
+      prefs.header === "Bearer env-value",
+      prefs.header
+    );
+    check(
+      "values without references pass through",
+      prefs.literal === "eu" && prefs.flag === true,
+      { literal: prefs.literal, flag: prefs.flag }
+    );
+    check(
+      "preferences with an unresolvable reference are left out",
+      !("missingEnv" in prefs) && !("missingSecret" in prefs) && !("mixed" in prefs),
+      Object.keys(prefs)
+    );
+    check(
+      "unresolvable references are warned about by name",
+      ["ext.missingEnv", "ext.missingSecret", "ext.mixed"].every((name) =>
+        logged.some((line) => line.includes(name))
+      ),
+      logged
+    );
+    check(
+      "warnings never echo resolved values",
+      !logged.some((line) => /env-value|store-value|file-value/.test(line)),
+      logged
+    );
+
+    const extensions = [
+      extension("ext", [preference("token", "password"), preference("region", "textfield")], {
+        deploy: [preference("deployKey", "password")],
+      }),
+      extension("other", [preference("token", "password")]),
+    ];
+    const plaintext = plaintextPasswords(
+      {
+        ext: { token: "hunter2", region: "eu", deployKey: "${secret:deploy}" },
+        other: { token: "" },
+      },
+      extensions
+    );
+    check(
+      "only password preferences holding a literal are reported as plaintext",
+      JSON.stringify(plaintext) === '[{"extension":"ext","preference":"token"}]',
+      plaintext
+    );
+    check(
+      "command password preferences are checked too",
+      plaintextPasswords({ ext: { deployKey: "literal" } }, extensions).length === 1
+    );
+  } finally {
+    console.error = consoleError;
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
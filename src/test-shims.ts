@@ -15,7 +15,7 @@
 import { discoverExtensions, type ToolEntry, type ExtensionEntry } from "./discovery.js";
 import { executeTool } from "./loader.js";
 import { setPreferences, setRaycastTokens, installShims } from "./shims.js";
-import { loadRaycastTokens } from "./auth.js";
+import { loadRaycastCredentials } from "./auth.js";
 import { readFile, appendFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
@@ -259,7 +259,7 @@ async function main() {
   setPreferences(prefs);
 
   try {
-    const tokens = loadRaycastTokens();
+    const { tokens } = await loadRaycastCredentials();
     setRaycastTokens(tokens);
   } catch {
     console.log("⚠️  Could not load OAuth tokens\n");
@@ -0,0 +1,196 @@
+#!/usr/bin/env bun
+/**
+ * LocalStorage and Cache test
+ *
+ * Runs fixture tools of two extensions against a throwaway data directory
+ * and checks that LocalStorage and Cache values persist between calls and
+ * processes, stay separate per extension and namespace, and that the
+ * cache evicts to its capacity and notifies subscribers.
+ */
+
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { executeTool } from "./loader.js";
+
+const TOOL = `
+const { Cache, LocalStorage } = require("@raycast/api");
+
+module.exports = async function ({ phase }) {
+  if (phase === "write") {
+    await LocalStorage.setItem("text", "hello");
+    await LocalStorage.setItem("count", 3);
+    await LocalStorage.setItem("flag", true);
+    await LocalStorage.setItem("gone", "soon");
+    await LocalStorage.removeItem("gone");
+    new Cache().set("key", "default");
+    new Cache({ namespace: "other" }).set("key", "other");
+    return "written";
+  }
+  if (phase === "read") {
+    return JSON.stringify({
+      text: await LocalStorage.getItem("text"),
+      all: await LocalStorage.allItems(),
+      cache: new Cache().get("key"),
+      namespaced: new Cache({ namespace: "other" }).get("key"),
+    });
+  }
+  if (phase === "evict") {
+    const cache = new Cache({ namespace: "small", capacity: 20 });
+    const events = [];
+    const unsubscribe = cache.subscribe((key, data) => events.push([key ?? null, data ?? null]));
+    cache.set("a", "1111111");
+    cache.set("b", "2222222");
+    cache.set("c", "3333333");
+    const kept = ["a", "b", "c"].filter((key) => cache.has(key));
+    cache.remove("c");
+    unsubscribe();
+    cache.set("d", "4");
+    return JSON.stringify({ kept, events });
+  }
+  if (phase === "touch") {
+    const cache = new Cache({ namespace: "recent" });
+    cache.set("a", "1");
+    cache.set("b", "2");
+    return cache.get("a");
+  }
+  await LocalStorage.clear();
+  new Cache().clear();
+  return JSON.stringify({ all: await LocalStorage.allItems(), empty: new Cache().isEmpty });
+};
+`;
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-storage-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  try {
+    const toolPath = join(root, "tool.js");
+    await writeFile(toolPath, TOOL);
+    const run = (extension: string, phase: string) =>
+      executeTool(toolPath, { phase }, extension, root);
+    const runJson = async (extension: string, phase: string) => JSON.parse(await run(extension, phase));
+
+    await run("alpha", "write");
+    const alpha = await runJson("alpha", "read");
+    check(
+      "LocalStorage keeps strings, numbers and booleans",
+      alpha.text === "hello" &&
+        JSON.stringify(alpha.all) === '{"text":"hello","count":3,"flag":true}',
+      alpha.all
+    );
+    check(
+      "Cache keeps values per namespace",
+      alpha.cache === "default" && alpha.namespaced === "other",
+      alpha
+    );
+
+    const beta = await runJson("beta", "read");
+    check(
+      "another extension sees none of them",
+      beta.text === undefined && JSON.stringify(beta.all) === "{}" && beta.cache === undefined,
+      beta
+    );
+
+    // A fresh process reads what this one wrote
+    const child = spawnSync(
+      process.execPath,
+      [
+        "-e",
+        `const { executeTool } = require(${JSON.stringify(join(import.meta.dir, "loader.ts"))});
+         executeTool(${JSON.stringify(toolPath)}, { phase: "read" }, "alpha", ${JSON.stringify(root)})
+           .then((out) => process.stdout.write(out));`,
+      ],
+      { env: process.env, encoding: "utf-8", timeout: 60_000 }
+    );
+    const persisted = JSON.parse(child.stdout || "{}");
+    check(
+      "values persist across processes",
+      persisted.text === "hello" && persisted.cache === "default",
+      child.stdout || child.stderr
+    );
+
+    const evicted = await runJson("alpha", "evict");
+    check(
+      "the cache evicts the oldest entries beyond its capacity",
+      JSON.stringify(evicted.kept) === '["b","c"]',
+      evicted.kept
+    );
+    check(
+      "subscribers are notified of sets and removals until they unsubscribe",
+      JSON.stringify(evicted.events) === '[["a","1111111"],["b","2222222"],["c","3333333"],["c",null]]',
+      evicted.events
+    );
+    const stored = JSON.parse(await readFile(join(root, "cache", "alpha", "small.json"), "utf-8"));
+    check(
+      "cache files hold what is kept",
+      JSON.stringify(stored.entries) === '[["b","2222222"],["d","4"]]',
+      stored.entries
+    );
+
+    const recentPath = join(root, "cache", "alpha", "recent.json");
+    await run("alpha", "touch");
+    const unsaved = JSON.parse(await readFile(recentPath, "utf-8"));
+    check(
+      "reads don't rewrite the cache file",
+      JSON.stringify(unsaved.entries) === '[["a","1"],["b","2"]]',
+      unsaved.entries
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+    const recent = JSON.parse(await readFile(recentPath, "utf-8"));
+    check(
+      "reads are saved as the most recent use shortly after",
+      JSON.stringify(recent.entries) === '[["b","2"],["a","1"]]',
+      recent.entries
+    );
+
+    // Locks left by a crashed or killed process are broken, not waited out
+    const lockPath = join(root, "local-storage", "beta.json.lock");
+    const exited = spawnSync(process.execPath, ["-e", ""]);
+    for (const [owner, label] of [
+      [String(exited.pid), "a leftover lock whose owner has exited"],
+      ["", "a leftover lock without an owner"],
+    ]) {
+      await writeFile(lockPath, owner);
+      const started = Date.now();
+      const written = await run("beta", "write").catch((err) => err.message);
+      const elapsed = Date.now() - started;
+      check(
+        `${label} does not block writes`,
+        written === "written" && elapsed < 3000 && !existsSync(lockPath),
+        { written, elapsed }
+      );
+    }
+
+    const cleared = await runJson("alpha", "clear");
+    check(
+      "clear empties LocalStorage and the cache",
+      JSON.stringify(cleared.all) === "{}" && cleared.empty === true,
+      cleared
+    );
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,299 @@
+#!/usr/bin/env bun
+/**
+ * Headless view rendering test
+ *
+ * Writes fixture view commands to a temp directory and runs them through
+ * executeTool, checking that hooks (React's and @raycast/utils') settle
+ * and the views come back as markdown and JSON, and that auto-stubs they
+ * touch are recorded for `raybridge coverage`.
+ */
+
+import { createServer } from "node:http";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { flushStubUsage } from "./coverage.js";
+import { executeToolIsolated } from "./isolation.js";
+import { executeTool } from "./loader.js";
+
+const LIST_COMMAND = `
+const { useState, useEffect, useRef, useCallback, createContext, useContext } = require("react");
+const { jsx, jsxs } = require("react/jsx-runtime");
+const { Action, ActionPanel, List, showToast, Toast } = require("@raycast/api");
+
+// Shaped like @raycast/utils' usePromise
+function usePromise(fn, args) {
+  const [state, setState] = useState({ isLoading: true });
+  const latest = useRef(fn);
+  latest.current = fn;
+  const run = useCallback((...a) =>
+    latest.current(...a).then(
+      (data) => setState({ data, isLoading: false }),
+      (error) => {
+        setState({ isLoading: false });
+        showToast({ style: Toast.Style.Failure, title: "Failed", message: error.message });
+      }
+    ), []);
+  useEffect(() => { run(...args); }, args);
+  return state;
+}
+
+const Prefix = createContext("");
+
+function Issue({ issue }) {
+  return jsx(List.Item, {
+    title: useContext(Prefix) + issue.title,
+    subtitle: issue.state,
+    accessories: [{ text: "2 comments" }, { tag: { value: "bug" } }],
+    actions: jsx(ActionPanel, { children: jsx(Action.OpenInBrowser, { url: "https://example.com" }) }),
+  });
+}
+
+module.exports.default = function Command(props) {
+  const { data, isLoading } = usePromise(async (query) => {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    if (query === "fail") throw new Error("boom");
+    return [{ title: "First " + query, state: "open" }, { title: "Second", state: "closed" }];
+  }, [props.arguments.query]);
+
+  return jsx(Prefix.Provider, {
+    value: "#",
+    children: jsxs(List, {
+      isLoading,
+      children: [
+        jsx(List.Section, {
+          title: "Issues",
+          children: (data || []).map((issue) => jsx(Issue, { issue }, issue.title)),
+        }),
+        jsx(List.EmptyView, { title: "No issues" }),
+      ],
+    }),
+  });
+};
+`;
+
+const DETAIL_COMMAND = `
+const React = require("react");
+const { Detail } = require("@raycast/api");
+
+let cleanedUp = false;
+module.exports = function Command() {
+  const [markdown, setMarkdown] = React.useState();
+  React.useEffect(() => {
+    const timer = setTimeout(() => setMarkdown("# Title"), 20);
+    return () => { clearTimeout(timer); cleanedUp = true; };
+  }, []);
+  return React.createElement(Detail, {
+    isLoading: !markdown,
+    markdown,
+    metadata: React.createElement(
+      Detail.Metadata,
+      null,
+      React.createElement(Detail.Metadata.Label, { title: "State", text: { value: "Open" } })
+    ),
+  });
+};
+module.exports.wasCleanedUp = () => cleanedUp;
+`;
+
+const FETCH_COMMAND = `
+const { jsx } = require("react/jsx-runtime");
+const { List } = require("@raycast/api");
+const { useFetch, withAccessToken, getAccessToken } = require("@raycast/utils");
+
+function Command() {
+  const { token } = getAccessToken();
+  const { data, isLoading } = useFetch(process.env.VIEWS_TEST_URL, {
+    headers: { Authorization: "Bearer " + token },
+  });
+  return jsx(List, {
+    isLoading,
+    children: (data || []).map((name) => jsx(List.Item, { title: name }, name)),
+  });
+}
+
+module.exports.default = withAccessToken({ personalAccessToken: "test-token" })(Command);
+`;
+
+const ABORT_COMMAND = `
+const { useRef } = require("react");
+const { jsx } = require("react/jsx-runtime");
+const { Detail } = require("@raycast/api");
+const { useFetch } = require("@raycast/utils");
+
+module.exports.default = function Command() {
+  const abortable = useRef();
+  const { error, isLoading } = useFetch(process.env.VIEWS_TEST_URL + "slow", {
+    abortable,
+    onWillExecute: () => setTimeout(() => abortable.current.abort(), 10),
+    onError: () => {},
+  });
+  return jsx(Detail, { isLoading, markdown: error ? "Failed: " + error.name : "Loaded" });
+};
+`;
+
+const HOOKS_COMMAND = `
+const { jsx } = require("react/jsx-runtime");
+const { Detail } = require("@raycast/api");
+const { useExec, useLocalStorage } = require("@raycast/utils");
+
+module.exports.default = function Command() {
+  const echo = useExec("echo", ["hello"]);
+  const shell = useExec("echo $HOOKS_TEST | tr a-z A-Z", { shell: true, env: { HOOKS_TEST: "shell" } });
+  const stored = useLocalStorage("visits", { count: 0 });
+  const loading = echo.isLoading || shell.isLoading || stored.isLoading;
+  if (!loading && stored.value.count === 0) stored.setValue({ count: 1 });
+  return jsx(Detail, {
+    isLoading: loading || stored.value.count === 0,
+    markdown: [echo.data, shell.data, stored.value.count].join(" "),
+  });
+};
+`;
+
+const SYNC_COMMAND = `
+const { showToast, Toast } = require("@raycast/api");
+
+module.exports.default = async function Command() {
+  const toast = await showToast({ style: Toast.Style.Animated, title: "Syncing" });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  toast.style = Toast.Style.Success;
+};
+`;
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-views-"));
+  process.env.RAYBRIDGE_DATA_DIR = root;
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  try {
+    const listPath = join(root, "issues.js");
+    const detailPath = join(root, "detail.js");
+    const fetchPath = join(root, "fetch.js");
+    await writeFile(listPath, LIST_COMMAND);
+    await writeFile(detailPath, DETAIL_COMMAND);
+    await writeFile(fetchPath, FETCH_COMMAND);
+    const syncPath = join(root, "sync.js");
+    await writeFile(syncPath, SYNC_COMMAND);
+    const abortPath = join(root, "abort.js");
+    await writeFile(abortPath, ABORT_COMMAND);
+    const hooksPath = join(root, "hooks.js");
+    await writeFile(hooksPath, HOOKS_COMMAND);
+
+    const run = (jsPath: string, input: Record<string, unknown>, viewFormat?: "json") =>
+      executeTool(jsPath, input, "views-test", root, {
+        command: { name: "test", mode: "view", viewFormat },
+      });
+
+    const list = await run(listPath, { query: "bug" });
+    check(
+      "list renders once its data has loaded",
+      list === "## Issues\n- **#First bug** — open (2 comments · bug)\n- **#Second** — closed (2 comments · bug)",
+      list
+    );
+
+    const failed = await run(listPath, { query: "fail" });
+    check(
+      "an empty list shows its empty view and the failure toast",
+      failed === "No issues\n\n---\nToast (failure): Failed: boom",
+      failed
+    );
+
+    await flushStubUsage();
+    const coverage = JSON.parse(await readFile(join(root, "shim-coverage.json"), "utf-8"));
+    check(
+      "auto-stub accesses are recorded per call, leaving out rendered views",
+      coverage["@raycast/api:ActionPanel"]?.calls === 2 &&
+        coverage["@raycast/api:Action.OpenInBrowser"]?.calls === 1 &&
+        coverage["@raycast/api:ActionPanel"].tools["views-test/test"] === 2 &&
+        !Object.keys(coverage).some((key) => key.includes("List")),
+      coverage
+    );
+
+    await executeToolIsolated(listPath, { query: "bug" }, "views-test", root, {
+      timeoutMs: 30_000,
+      memoryLimitMb: 0,
+      command: { name: "isolated", mode: "view" },
+    });
+    const isolated = JSON.parse(await readFile(join(root, "shim-coverage.json"), "utf-8"));
+    check(
+      "isolated calls record their auto-stub accesses too",
+      isolated["@raycast/api:ActionPanel"]?.tools["views-test/isolated"] === 1,
+      isolated["@raycast/api:ActionPanel"]
+    );
+
+    const synced = await executeTool(syncPath, {}, "views-test", root, {
+      command: { name: "sync", mode: "no-view" },
+    });
+    check(
+      "a toast's final style is reported when only its style changes",
+      synced === "Toast (success): Syncing",
+      synced
+    );
+
+    const hooks = await run(hooksPath, {});
+    check("useExec runs commands and useLocalStorage keeps JSON values", hooks === "hello SHELL 1", hooks);
+    const storedHooks = JSON.parse(await readFile(join(root, "local-storage", "views-test.json"), "utf-8"));
+    check("useLocalStorage values are stored as JSON", storedHooks.visits === '{"count":1}', storedHooks);
+
+    const detail = await run(detailPath, {});
+    check("detail renders markdown and metadata", detail === "# Title\n\n- **State:** Open", detail);
+    check("effects are cleaned up after rendering", require(detailPath).wasCleanedUp() === true);
+
+    const json = JSON.parse(await run(detailPath, {}, "json"));
+    check(
+      "json output keeps the host component tree",
+      json.view?.component === "Detail" &&
+        json.view.props.markdown === "# Title" &&
+        json.view.props.metadata?.children?.[0]?.component === "Detail.Metadata.Label" &&
+        json.loading === false,
+      json
+    );
+
+    const server = createServer((req, res) => {
+      if (req.url === "/slow") {
+        setTimeout(() => res.end("[]"), 500);
+        return;
+      }
+      const authorized = req.headers.authorization === "Bearer test-token";
+      res.writeHead(authorized ? 200 : 401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(authorized ? ["alpha", "beta"] : []));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const address = server.address();
+    process.env.VIEWS_TEST_URL = `http://127.0.0.1:${typeof address === "object" && address ? address.port : 0}/`;
+    try {
+      const fetched = await run(fetchPath, {});
+      check(
+        "@raycast/utils useFetch loads with the token from withAccessToken",
+        fetched === "- **alpha**\n- **beta**",
+        fetched
+      );
+
+      const aborted = await run(abortPath, {});
+      check("useFetch requests are aborted through abortable", aborted === "Failed: AbortError", aborted);
+    } finally {
+      server.close();
+    }
+  } finally {
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
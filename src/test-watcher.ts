@@ -0,0 +1,104 @@
+#!/usr/bin/env bun
+/**
+ * Extension watcher test
+ *
+ * Watches a directory of extensions and a repo root in a temp directory
+ * and checks that rebuilt dev bundles trigger a reload, and that roots
+ * added to or removed from the configuration are watched or dropped after
+ * the next reload, without a restart.
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { startExtensionWatcher } from "./watcher.js";
+
+const DEBOUNCE_MS = 50;
+/** Long enough for a change to be seen and its reload to run */
+const SETTLE_MS = 500;
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, SETTLE_MS));
+
+async function main() {
+  const root = await mkdtemp(join(tmpdir(), "raybridge-watcher-"));
+  let failures = 0;
+
+  const check = (label: string, ok: boolean, detail?: unknown) => {
+    if (ok) {
+      console.log(`✅ ${label}`);
+    } else {
+      failures++;
+      console.log(`❌ ${label}${detail === undefined ? "" : `: ${JSON.stringify(detail)}`}`);
+    }
+  };
+
+  const logged: string[] = [];
+  const consoleError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.join(" "));
+
+  const extensionsDir = join(root, "extensions");
+  const devBundleDir = join(extensionsDir, "dev", "dist");
+  const repoDir = join(root, "repo");
+  await mkdir(devBundleDir, { recursive: true });
+  await writeFile(join(extensionsDir, "dev", "package.json"), "{}");
+  await mkdir(join(repoDir, "build"), { recursive: true });
+  await writeFile(join(repoDir, "package.json"), "{}");
+
+  const roots = [extensionsDir];
+  let reloads = 0;
+  const stop = startExtensionWatcher({
+    onReload: async () => {
+      reloads++;
+      return false;
+    },
+    getServers: () => [],
+    getRoots: () => roots,
+    getBundleDirs: () => [devBundleDir],
+    debounceMs: DEBOUNCE_MS,
+  });
+
+  try {
+    await settle();
+    await writeFile(join(devBundleDir, "tool.js"), "module.exports = () => 1;");
+    await settle();
+    check("a rebuilt dev bundle triggers a reload", reloads === 1, reloads);
+
+    roots.push(repoDir);
+    await writeFile(join(extensionsDir, "dev", "package.json"), '{"name":"dev"}');
+    await settle();
+    const before = reloads;
+    await writeFile(join(repoDir, "build", "tool.js"), "module.exports = () => 1;");
+    await settle();
+    check(
+      "a root added to the configuration is watched after the next reload",
+      reloads === before + 1,
+      { before, reloads }
+    );
+
+    roots.pop();
+    await writeFile(join(extensionsDir, "dev", "package.json"), '{"name":"dev2"}');
+    await settle();
+    const afterRemoval = reloads;
+    await writeFile(join(repoDir, "build", "tool.js"), "module.exports = () => 2;");
+    await settle();
+    check(
+      "a root removed from the configuration is no longer watched",
+      reloads === afterRemoval && logged.some((line) => line.includes(`Stopped watching ${repoDir}`)),
+      { afterRemoval, reloads }
+    );
+  } finally {
+    stop();
+    console.error = consoleError;
+    await rm(root, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.log(`\n❌ ${failures} failure(s)`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
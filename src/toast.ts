@@ -0,0 +1,110 @@
+import { currentContext, type CommandOutput } from "./context.js";
+
+/**
+ * Toasts and HUDs, the feedback Raycast shows outside a view. Shared by
+ * the @raycast/api and @raycast/utils shims.
+ */
+
+export type ToastStyle = "success" | "failure" | "animated";
+
+export interface ToastOptions {
+  title: string;
+  message?: string;
+  style?: ToastStyle;
+  primaryAction?: unknown;
+  secondaryAction?: unknown;
+}
+
+/**
+ * Toast - animated toasts and title/message updates are reported as MCP
+ * progress for the call that created them. A command's toasts are part of
+ * its result, in the state they were last shown in.
+ */
+export class Toast {
+  static Style = { Success: "success", Failure: "failure", Animated: "animated" };
+
+  primaryAction?: unknown;
+  secondaryAction?: unknown;
+  private _style: ToastStyle;
+  private _title: string;
+  private _message?: string;
+  private shown = false;
+  private onProgress = currentContext().onProgress;
+  private output = currentContext().output;
+  private entry?: Extract<CommandOutput, { type: "toast" }>;
+
+  constructor(options: ToastOptions) {
+    this._style = options.style ?? "success";
+    this._title = options.title;
+    this._message = options.message;
+    this.primaryAction = options.primaryAction;
+    this.secondaryAction = options.secondaryAction;
+  }
+
+  get style() { return this._style; }
+  set style(style: ToastStyle) {
+    this._style = style;
+    // Every style change is recorded; only animated toasts report progress
+    if (style === "animated") this.report();
+    else if (this.shown) this.record();
+  }
+
+  get title() { return this._title; }
+  set title(title: string) {
+    this._title = title;
+    this.report();
+  }
+
+  get message() { return this._message; }
+  set message(message: string | undefined) {
+    this._message = message;
+    this.report();
+  }
+
+  async show() {
+    this.shown = true;
+    this.record();
+    if (this._style === "animated") this.report();
+  }
+
+  async hide() {
+    this.shown = false;
+  }
+
+  private report() {
+    if (!this.shown) return;
+    this.record();
+    if (!this.onProgress) return;
+    this.onProgress(this._message ? `${this._title}: ${this._message}` : this._title);
+  }
+
+  private record() {
+    if (!this.output) return;
+    if (!this.entry) {
+      this.entry = { type: "toast", style: this._style, title: this._title };
+      this.output.push(this.entry);
+    }
+    this.entry.style = this._style;
+    this.entry.title = this._title;
+    this.entry.message = this._message;
+  }
+}
+
+/** showToast - accepts options or the legacy (style, title, message) form */
+export async function showToast(
+  optionsOrStyle: ToastOptions | ToastStyle,
+  title?: string,
+  message?: string
+): Promise<Toast> {
+  const options = typeof optionsOrStyle === "object"
+    ? optionsOrStyle
+    : { style: optionsOrStyle, title: title ?? "", message };
+  const toast = new Toast(options);
+  await toast.show();
+  return toast;
+}
+
+/** showHUD - part of a command's result; nowhere to show it otherwise */
+export async function showHUD(title: string): Promise<void> {
+  currentContext().output?.push({ type: "hud", text: title });
+}
@@ -0,0 +1,161 @@
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { TokenSet } from "./auth.js";
+import { getDataDir } from "./config.js";
+import {
+  readJsonFile,
+  safeFileName,
+  withFileLock,
+  writeJsonFileAtomic,
+} from "./file-store.js";
+
+/**
+ * raybridge's own OAuth token store. Holds token sets obtained outside
+ * Raycast (PKCE flows run by raybridge), one file per extension.
+ */
+
+export interface StoredTokenSet extends TokenSet {
+  /** `providerName` passed to the PKCEClient constructor */
+  providerName?: string;
+  /** Account label, for extensions signed in to several accounts */
+  account?: string;
+}
+
+/** Token endpoint of one OAuth provider, for refreshing on the extension's behalf */
+export interface TokenEndpoint {
+  url: string;
+  /** Body parameters a refresh needs besides the token (only client_id) */
+  params: Record<string, string>;
+  encoding: "form" | "json";
+}
+
+interface TokenFile {
+  tokenSets: StoredTokenSet[];
+  /** Token endpoints keyed by provider (see providerKey) */
+  tokenEndpoints?: Record<string, TokenEndpoint>;
+}
+
+/**
+ * Key of the provider a token set or PKCEClient belongs to: its providerId,
+ * else its providerName. Endpoints are kept per provider so one provider's
+ * refresh token is never sent to another's endpoint.
+ */
+export function providerKey(provider: { providerId?: string; providerName?: string }): string {
+  return provider.providerId ?? provider.providerName ?? "";
+}
+
+function tokenDir(): string {
+  return join(getDataDir(), "tokens");
+}
+
+function tokenPath(extensionName: string): string {
+  return join(tokenDir(), `${safeFileName(extensionName)}.json`);
+}
+
+function sameAccount(
+  a: StoredTokenSet,
+  providerName?: string,
+  account?: string
+): boolean {
+  return (
+    (a.providerName ?? "") === (providerName ?? "") &&
+    (a.account ?? "") === (account ?? "")
+  );
+}
+
+/**
+ * Read a token file. Files from older versions kept a single endpoint per
+ * extension, with every static parameter the extension sent (client
+ * secrets included); it is dropped, so the next write removes it.
+ */
+async function readTokenFile(path: string): Promise<TokenFile> {
+  const { tokenEndpoint: _legacy, ...file } = await readJsonFile<
+    TokenFile & { tokenEndpoint?: unknown }
+  >(path, { tokenSets: [] });
+  return file;
+}
+
+export async function loadStoredTokens(
+  extensionName: string
+): Promise<StoredTokenSet[]> {
+  const file = await readTokenFile(tokenPath(extensionName));
+  return file.tokenSets ?? [];
+}
+
+/** Insert or replace the token set for the set's provider and account. */
+export function saveStoredTokens(
+  extensionName: string,
+  tokenSet: StoredTokenSet
+): Promise<void> {
+  const path = tokenPath(extensionName);
+  return withFileLock(path, async () => {
+    const file = await readTokenFile(path);
+    const others = (file.tokenSets ?? []).filter(
+      (t) => !sameAccount(t, tokenSet.providerName, tokenSet.account)
+    );
+    await writeJsonFileAtomic(path, { ...file, tokenSets: [...others, tokenSet] });
+  });
+}
+
+/** Remove the token set for one provider and account. */
+export function removeStoredTokens(
+  extensionName: string,
+  providerName?: string,
+  account?: string
+): Promise<void> {
+  const path = tokenPath(extensionName);
+  return withFileLock(path, async () => {
+    const file = await readTokenFile(path);
+    await writeJsonFileAtomic(path, {
+      ...file,
+      tokenSets: (file.tokenSets ?? []).filter(
+        (t) => !sameAccount(t, providerName, account)
+      ),
+    });
+  });
+}
+
+/** Token endpoints an extension's providers were seen using, by provider key. */
+export async function loadTokenEndpoints(
+  extensionName: string
+): Promise<Record<string, TokenEndpoint>> {
+  const file = await readTokenFile(tokenPath(extensionName));
+  return file.tokenEndpoints ?? {};
+}
+
+export async function loadTokenEndpoint(
+  extensionName: string,
+  provider: string
+): Promise<TokenEndpoint | undefined> {
+  return (await loadTokenEndpoints(extensionName))[provider];
+}
+
+export function saveTokenEndpoint(
+  extensionName: string,
+  provider: string,
+  endpoint: TokenEndpoint
+): Promise<void> {
+  const path = tokenPath(extensionName);
+  return withFileLock(path, async () => {
+    const file = await readTokenFile(path);
+    const endpoints = file.tokenEndpoints ?? {};
+    if (JSON.stringify(endpoints[provider]) === JSON.stringify(endpoint)) return;
+    await writeJsonFileAtomic(path, {
+      ...file,
+      tokenEndpoints: { ...endpoints, [provider]: endpoint },
+    });
+  });
+}
+
+/** Extension names that have a token file. */
+export async function listTokenStoreExtensions(): Promise<string[]> {
+  try {
+    const files = await readdir(tokenDir());
+    return files
+      .filter((f) => f.endsWith(".json") && !f.startsWith("."))
+      .map((f) => f.slice(0, -".json".length))
+      .sort();
+  } catch {
+    return [];
+  }
+}
@@ -144,10 +144,8 @@ function App({ onExit }: AppProps) {
   useEffect(() => {
     async function load() {
       try {
-        const [extensions, config] = await Promise.all([
-          discoverExtensions(),
-          loadToolsConfig(),
-        ]);
+        const config = await loadToolsConfig();
+        const extensions = await discoverExtensions(config);
 
         // First extension is at index 0 now (no section header)
         const initialCursor = 0;
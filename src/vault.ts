@@ -0,0 +1,146 @@
+import { spawn } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { writeFileAtomic } from "./file-store.js";
+
+/**
+ * raybridge's encrypted vault. A passphrase vault is a JSON envelope with
+ * AES-256-GCM ciphertext and a scrypt-derived key; the passphrase comes
+ * from RAYBRIDGE_VAULT_PASSPHRASE. Vaults encrypted with age are decrypted
+ * with the `age` CLI and an identity file. Key derivation and `age` run off
+ * the event loop, so reloading credentials never stalls tool calls.
+ */
+
+interface VaultEnvelope {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const AGE_HEADERS = ["age-encryption.org/v1", "-----BEGIN AGE ENCRYPTED FILE-----"];
+
+function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      32,
+      { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 },
+      (err, key) => (err ? reject(err) : resolve(key))
+    );
+  });
+}
+
+export async function encryptWithPassphrase(plaintext: string, passphrase: string): Promise<string> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", await deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  const envelope: VaultEnvelope = {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2) + "\n";
+}
+
+export async function decryptWithPassphrase(contents: string, passphrase: string): Promise<string> {
+  const envelope = JSON.parse(contents) as VaultEnvelope;
+  if (envelope.version !== 1 || envelope.kdf !== "scrypt") {
+    throw new Error("Unsupported vault format");
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    await deriveKey(passphrase, Buffer.from(envelope.salt, "base64")),
+    Buffer.from(envelope.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    throw new Error("Wrong passphrase or corrupted vault");
+  }
+}
+
+/** Read a passphrase from the environment, failing if it is unset. */
+export function passphraseFromEnv(variable: string): string {
+  const passphrase = process.env[variable];
+  if (!passphrase) {
+    throw new Error(`${variable} is not set`);
+  }
+  return passphrase;
+}
+
+function vaultPassphrase(): string {
+  return passphraseFromEnv("RAYBRIDGE_VAULT_PASSPHRASE");
+}
+
+/** Run the `age` CLI, resolving with its output (binary when encrypting). */
+function runAge(args: string[], input?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("age", args, { stdio: ["pipe", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.setEncoding("utf-8").on("data", (chunk) => (stderr += chunk));
+    child.on("error", (err: NodeJS.ErrnoException) =>
+      reject(err.code === "ENOENT" ? new Error("age is not installed") : err)
+    );
+    child.on("close", (code) =>
+      code === 0
+        ? resolve(Buffer.concat(stdout))
+        : reject(new Error(`age failed: ${stderr.trim() || `exit code ${code}`}`))
+    );
+    child.stdin.end(input);
+  });
+}
+
+/** Which of the age formats (binary or ASCII-armored) a vault file uses, if any. */
+export function ageFormat(contents: Buffer): "binary" | "armored" | undefined {
+  const head = contents.subarray(0, 64).toString("utf-8");
+  if (head.startsWith(AGE_HEADERS[0])) return "binary";
+  if (head.startsWith(AGE_HEADERS[1])) return "armored";
+  return undefined;
+}
+
+/** Read and decrypt a vault file, returning its plaintext. */
+export async function readVaultFile(
+  path: string,
+  options: { ageIdentity?: string } = {}
+): Promise<string> {
+  const contents = await readFile(path);
+  if (ageFormat(contents)) {
+    if (!options.ageIdentity) {
+      throw new Error("Vault is encrypted with age but no ageIdentity is configured");
+    }
+    return (await runAge(["--decrypt", "-i", options.ageIdentity, path])).toString("utf-8");
+  }
+  return decryptWithPassphrase(contents.toString("utf-8"), vaultPassphrase());
+}
+
+/**
+ * Encrypt plaintext and write it to `path`: to the recipients in the
+ * `ageRecipients` file when given (ASCII-armored with `armor`), otherwise
+ * with RAYBRIDGE_VAULT_PASSPHRASE.
+ */
+export async function writeVaultFile(
+  path: string,
+  plaintext: string,
+  options: { ageRecipients?: string; armor?: boolean } = {}
+): Promise<void> {
+  if (options.ageRecipients) {
+    const args = ["--encrypt", "-R", options.ageRecipients, ...(options.armor ? ["--armor"] : [])];
+    await writeFileAtomic(path, await runAge(args, plaintext));
+    return;
+  }
+  await writeFileAtomic(path, await encryptWithPassphrase(plaintext, vaultPassphrase()));
+}
@@ -0,0 +1,161 @@
+import type { CommandOutput } from "./context.js";
+import type { HostNode, RenderedNode, RenderedView } from "./react.js";
+
+/**
+ * Command results as tool output. A view is rendered as markdown for the
+ * model to read, or as JSON of the host component tree; HUDs, toasts and
+ * clipboard text follow it.
+ */
+
+export type ViewFormat = "markdown" | "json";
+
+const VIEWS = new Set(["List", "Detail", "Grid", "Form"]);
+
+function hostNodes(nodes: RenderedNode[]): HostNode[] {
+  return nodes.filter((n): n is HostNode => typeof n !== "string");
+}
+
+/** Text of a title/subtitle/tag, which may be a string or `{ value }`. */
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object" && "value" in value) return text((value as any).value);
+  return undefined;
+}
+
+function accessoryText(accessory: any): string | undefined {
+  if (!accessory || typeof accessory !== "object") return undefined;
+  return text(accessory.text) ?? text(accessory.tag) ?? text(accessory.date);
+}
+
+function metadataLines(metadata: unknown): string[] {
+  if (!metadata || typeof metadata !== "object") return [];
+  const lines: string[] = [];
+  for (const entry of hostNodes((metadata as HostNode).children ?? [])) {
+    const title = text(entry.props.title);
+    if (entry.component.endsWith(".TagList")) {
+      const tags = hostNodes(entry.children).map((t) => text(t.props.text)).filter(Boolean);
+      lines.push(`- **${title}:** ${tags.join(", ")}`);
+    } else if (entry.component.endsWith(".Link")) {
+      lines.push(`- **${title}:** [${text(entry.props.text) ?? entry.props.target}](${entry.props.target})`);
+    } else if (entry.component.endsWith(".Label")) {
+      lines.push(`- **${title}:** ${text(entry.props.text) ?? ""}`.trimEnd());
+    }
+  }
+  return lines;
+}
+
+function indent(block: string, prefix: string): string {
+  return block.split("\n").map((line) => (line ? prefix + line : line)).join("\n");
+}
+
+function itemMarkdown(item: HostNode): string {
+  const title = text(item.props.title) ?? (item.component.startsWith("Grid") ? "(untitled)" : "");
+  let line = `- **${title}**`;
+  const subtitle = text(item.props.subtitle);
+  if (subtitle) line += ` — ${subtitle}`;
+  const accessories = (Array.isArray(item.props.accessories) ? item.props.accessories : [])
+    .map(accessoryText)
+    .filter(Boolean);
+  if (accessories.length > 0) line += ` (${accessories.join(" · ")})`;
+
+  const detail = item.props.detail as HostNode | undefined;
+  const details = [
+    text(detail?.props?.markdown),
+    metadataLines(detail?.props?.metadata).join("\n") || undefined,
+  ].filter(Boolean) as string[];
+  if (details.length > 0) line += `\n${indent(details.join("\n\n"), "  ")}`;
+  return line;
+}
+
+/** Items and sections of a List or Grid, in order. */
+function collectionMarkdown(view: HostNode): string {
+  const blocks: string[] = [];
+  let items: string[] = [];
+  const flush = () => {
+    if (items.length > 0) blocks.push(items.join("\n"));
+    items = [];
+  };
+
+  for (const child of hostNodes(view.children)) {
+    if (child.component.endsWith(".Item")) {
+      items.push(itemMarkdown(child));
+    } else if (child.component.endsWith(".Section")) {
+      flush();
+      const title = text(child.props.title);
+      const subtitle = text(child.props.subtitle);
+      const sectionItems = hostNodes(child.children).filter((c) => c.component.endsWith(".Item"));
+      if (sectionItems.length === 0) continue;
+      const heading = title ? `## ${title}${subtitle ? ` (${subtitle})` : ""}\n` : "";
+      blocks.push(heading + sectionItems.map(itemMarkdown).join("\n"));
+    }
+  }
+  flush();
+
+  if (blocks.length === 0) {
+    const empty = hostNodes(view.children).find((c) => c.component.endsWith(".EmptyView"));
+    const message = [text(empty?.props.title), text(empty?.props.description)].filter(Boolean).join(": ");
+    return message || "No items.";
+  }
+  return blocks.join("\n\n");
+}
+
+function viewMarkdown(view: HostNode): string {
+  const title = text(view.props.navigationTitle);
+  let body: string;
+  if (view.component === "Detail") {
+    body = [text(view.props.markdown), metadataLines(view.props.metadata).join("\n")]
+      .filter(Boolean)
+      .join("\n\n");
+  } else if (view.component === "Form") {
+    body = "This command shows a form, which cannot be filled in headlessly.";
+  } else {
+    body = collectionMarkdown(view);
+  }
+  return title ? `# ${title}\n\n${body}` : body;
+}
+
+/** Host nodes with function and symbol props left out. */
+function toJson(node: RenderedNode): unknown {
+  if (typeof node === "string") return node;
+  const props: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(node.props)) {
+    if (typeof value === "function" || typeof value === "symbol" || value === undefined) continue;
+    props[key] = value && typeof value === "object" && "component" in value
+      ? toJson(value as HostNode)
+      : value;
+  }
+  const json: Record<string, unknown> = { component: node.component, props };
+  if (node.children.length > 0) json.children = node.children.map(toJson);
+  return json;
+}
+
+/** What a command showed or copied, one entry per line. */
+export function formatCommandOutput(output: CommandOutput[]): string {
+  if (output.length === 0) return "The command finished without showing anything.";
+  return output
+    .map((entry) => {
+      if (entry.type === "hud") return `HUD: ${entry.text}`;
+      if (entry.type === "clipboard") return `Copied to clipboard:\n${entry.text}`;
+      const text = entry.message ? `${entry.title}: ${entry.message}` : entry.title;
+      return `Toast (${entry.style}): ${text}`;
+    })
+    .join("\n");
+}
+
+/** Format a rendered view command, and anything else it showed, as tool output. */
+export function formatView(view: RenderedView, format: ViewFormat, output: CommandOutput[]): string {
+  const root = hostNodes(view.nodes).find((n) => VIEWS.has(n.component));
+  if (format === "json") {
+    return JSON.stringify(
+      { view: root ? toJson(root) : null, loading: view.loading, output },
+      (_key, value) => (typeof value === "function" ? undefined : value),
+      2
+    );
+  }
+  let markdown = root ? viewMarkdown(root) : "The command rendered nothing.";
+  if (view.loading) markdown += "\n\n(The view was still loading; results may be incomplete.)";
+  if (output.length > 0) markdown += `\n\n---\n${formatCommandOutput(output)}`;
+  return markdown;
+}
@@ -1,20 +1,42 @@
-import { watch, type FSWatcher } from "node:fs";
-import { join } from "node:path";
+import { existsSync, watch, type FSWatcher } from "node:fs";
+import { basename, dirname, join, sep } from "node:path";
 import { homedir } from "node:os";
 import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 
 export interface WatcherOptions {
   onReload: () => Promise<boolean>; // Returns true if tools changed
   getServers: () => Server[]; // Get all active servers to notify
+  /**
+   * Extension roots to watch (see getExtensionRoots). Read again after
+   * every reload, so changes to `extensionRoots` apply without a restart
+   */
+  getRoots: () => string[];
+  /** Directories the discovered tool and command bundles are in */
+  getBundleDirs: () => string[];
   debounceMs?: number;
 }
 
-export function startExtensionWatcher(options: WatcherOptions): FSWatcher[] {
-  const { onReload, getServers, debounceMs = 1000 } = options;
+/** Build output directories that may hold a dev extension's tool bundles */
+const DEV_BUILD_DIRS = ["tools", "dist", "dist/tools", "build", "build/tools"];
+
+/**
+ * Whether a change below a directory of extensions can affect discovery:
+ * a manifest, a file next to a discovered bundle, or a file in a build
+ * output directory of an extension that has no bundles yet.
+ */
+function isExtensionChange(root: string, filename: string, bundleDirs: Set<string>): boolean {
+  const path = join(root, filename);
+  if (basename(path) === "package.json" || bundleDirs.has(dirname(path))) return true;
+  const [, ...rest] = filename.split(sep);
+  return DEV_BUILD_DIRS.includes(rest.slice(0, -1).join("/"));
+}
+
+/** Start watching; the returned function stops every watcher. */
+export function startExtensionWatcher(options: WatcherOptions): () => void {
+  const { onReload, getServers, getRoots, getBundleDirs, debounceMs = 1000 } = options;
   const home = homedir();
 
   // Paths to watch
-  const extensionsDir = join(home, ".config", "raycast", "extensions");
   const raycastSupportDir = join(home, "Library", "Application Support", "com.raycast.macos");
   const raybridgeConfigDir = join(home, ".config", "raybridge");
   const rayAiToolsConfigDir = join(home, ".config", "ray-ai-tools");
@@ -29,6 +51,7 @@ export function startExtensionWatcher(options: WatcherOptions): FSWatcher[] {
     try {
       console.error(`raybridge: Detected change in ${source}, reloading...`);
       const changed = await onReload();
+      watchRoots();
       if (changed) {
         const servers = getServers();
         console.error(
@@ -64,20 +87,74 @@ export function startExtensionWatcher(options: WatcherOptions): FSWatcher[] {
 
   const watchers: FSWatcher[] = [];
 
-  // Watch extensions directory
-  try {
-    const extWatcher = watch(extensionsDir, { recursive: true }, (_event, filename) => {
-      // Only trigger on relevant files
-      if (filename && !filename.endsWith("package.json") && !filename.includes("/tools/")) {
-        return;
+  /** Watchers for one root; only the first attempt at a root is logged. */
+  const watchRoot = (root: string, isNew: boolean): FSWatcher[] => {
+    const created: FSWatcher[] = [];
+    try {
+      if (existsSync(join(root, "package.json"))) {
+        // A single extension, likely a repo: watch only the manifest and
+        // build output, not node_modules. A build directory created later
+        // triggers a reload, after which it is watched too
+        const buildDirNames = new Set(DEV_BUILD_DIRS.map((dir) => dir.split("/")[0]));
+        for (const dir of ["", ...DEV_BUILD_DIRS]) {
+          const path = join(root, dir);
+          if (!existsSync(path)) continue;
+          created.push(
+            watch(path, {}, (_event, filename) => {
+              if (
+                filename &&
+                (dir !== "" || filename === "package.json" || buildDirNames.has(filename))
+              ) {
+                debouncedReload(join(path, filename));
+              }
+            })
+          );
+        }
+      } else {
+        created.push(
+          watch(root, { recursive: true }, (_event, filename) => {
+            // Only trigger on relevant files
+            if (filename && !isExtensionChange(root, filename, new Set(getBundleDirs()))) {
+              return;
+            }
+            debouncedReload(filename || "extensions");
+          })
+        );
       }
-      debouncedReload(filename || "extensions");
-    });
-    watchers.push(extWatcher);
-    console.error(`raybridge: Watching ${extensionsDir}`);
-  } catch (err: any) {
-    console.error(`raybridge: Could not watch extensions dir: ${err.message}`);
-  }
+      if (isNew) console.error(`raybridge: Watching ${root}`);
+    } catch (err: any) {
+      if (isNew) {
+        console.error(`raybridge: Could not watch extensions dir ${root}: ${err.message}`);
+      }
+    }
+    return created;
+  };
+
+  // Watch extension roots, updated after every reload: roots may have been
+  // added or removed, a repo root may have new build directories and a
+  // root that didn't exist yet may have been created
+  const rootWatchers = new Map<string, FSWatcher[]>();
+  const announced = new Set<string>();
+  const watchRoots = () => {
+    const roots = getRoots();
+    for (const [root, current] of rootWatchers) {
+      const stale = !roots.includes(root);
+      if (stale || current.length === 0 || existsSync(join(root, "package.json"))) {
+        for (const watcher of current) watcher.close();
+        rootWatchers.delete(root);
+        if (stale) {
+          announced.delete(root);
+          console.error(`raybridge: Stopped watching ${root}`);
+        }
+      }
+    }
+    for (const root of roots) {
+      if (rootWatchers.has(root)) continue;
+      rootWatchers.set(root, watchRoot(root, !announced.has(root)));
+      announced.add(root);
+    }
+  };
+  watchRoots();
 
   // Watch Raycast support directory (for encrypted DB with OAuth tokens/prefs)
   try {
@@ -119,5 +196,10 @@ export function startExtensionWatcher(options: WatcherOptions): FSWatcher[] {
     // Config dir might not exist
   }
 
-  return watchers;
+  return () => {
+    for (const watcher of [...watchers, ...[...rootWatchers.values()].flat()]) {
+      watcher.close();
+    }
+    if (debounceTimer) clearTimeout(debounceTimer);
+  };
 }
@@ -0,0 +1,115 @@
+/**
+ * Child process entry point for subprocess isolation.
+ *
+ * Receives a single run message from the parent, executes the tool
+ * in-process with the shims installed, reports the outcome over IPC
+ * and exits. Client bridge calls (sampling, ...) are forwarded to the
+ * parent, which owns the MCP connection.
+ */
+
+import { flushStubUsage } from "./coverage.js";
+import { executeTool } from "./loader.js";
+import { setPreferences, setRaycastTokens, UnsupportedRaycastApiError } from "./shims.js";
+import type { ClientBridge } from "./context.js";
+import type { ParentMessage, WorkerRunMessage, WorkerMessage } from "./isolation.js";
+
+const MEMORY_CHECK_INTERVAL = 250;
+
+const pending = new Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (err: Error) => void }
+>();
+let nextRequestId = 1;
+
+function report(msg: WorkerMessage): Promise<void> {
+  return new Promise((resolve) => {
+    process.send!(msg, undefined, undefined, () => resolve());
+  });
+}
+
+function watchMemory(limitMb: number) {
+  if (limitMb <= 0) return;
+  const limitBytes = limitMb * 1024 * 1024;
+  const timer = setInterval(async () => {
+    if (process.memoryUsage().rss > limitBytes) {
+      clearInterval(timer);
+      await flushStubUsage();
+      await report({
+        type: "error",
+        message: `Tool exceeded memory limit of ${limitMb}MB`,
+      });
+      process.exit(137);
+    }
+  }, MEMORY_CHECK_INTERVAL).unref();
+}
+
+/** Client bridge whose methods are answered by the parent process. */
+function createRemoteBridge(methods: Array<keyof ClientBridge>): ClientBridge {
+  const bridge: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+  for (const method of methods) {
+    bridge[method] = (...args) =>
+      new Promise((resolve, reject) => {
+        const id = nextRequestId++;
+        pending.set(id, { resolve, reject });
+        // Abort signals are not serializable; the parent substitutes its own
+        const serializable = JSON.parse(
+          JSON.stringify(args, (_key, value) =>
+            value instanceof AbortSignal ? undefined : value
+          )
+        );
+        report({ type: "request", id, method, args: serializable });
+      });
+  }
+  return bridge as ClientBridge;
+}
+
+async function run(msg: WorkerRunMessage) {
+  setPreferences({ [msg.extensionName]: msg.preferences });
+  setRaycastTokens(new Map([[msg.extensionName, msg.tokens]]));
+  watchMemory(msg.memoryLimitMb);
+
+  let outcome: WorkerMessage;
+  try {
+    const result = await executeTool(
+      msg.jsPath,
+      msg.input,
+      msg.extensionName,
+      msg.extensionDir,
+      {
+        onProgress: (message) => report({ type: "progress", message }),
+        client: createRemoteBridge(msg.clientMethods),
+        account: msg.account,
+        declaredPreferences: msg.declaredPreferences,
+        command: msg.command,
+        strictShims: msg.strictShims,
+      }
+    );
+    outcome = { type: "result", result };
+  } catch (err: any) {
+    outcome = {
+      type: "error",
+      message: err?.message || String(err),
+      unsupportedApi:
+        err instanceof UnsupportedRaycastApiError
+          ? { module: err.module, api: err.api }
+          : undefined,
+    };
+  }
+  // The parent kills this process once it has the outcome, so shim
+  // coverage, recorded in the background, is written before reporting
+  await flushStubUsage();
+  await report(outcome);
+  process.exit(0);
+}
+
+process.on("message", (msg: ParentMessage) => {
+  if (msg.type === "run") {
+    run(msg);
+  } else if (msg.type === "response") {
+    const request = pending.get(msg.id);
+    if (!request) return;
+    pending.delete(msg.id);
+    if (msg.error !== undefined) request.reject(new Error(msg.error));
+    else request.resolve(msg.result);
+  }
+});